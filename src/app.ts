@@ -7,18 +7,85 @@ import {
   type KeyEvent,
 } from "@opentui/core";
 
-import { loadConfig, saveConfig, addFileToConfig, removeFileFromConfig, getFullFilePath, type AppConfig, type ProjectConfig } from "./config.ts";
-import { getLog, getDiff, getContent, restore, getSnapshotCount, getLatestSnapshot, snapshot, type SnapshotInfo } from "./tracker.ts";
-import { startWatching, stopWatching, stopAll, onSnapshot } from "./watcher.ts";
+import {
+  loadConfig,
+  saveConfig,
+  addWatchTarget,
+  removeWatchTarget,
+  addIgnoreToConfig,
+  listProjectFiles,
+  forgetProjectFiles,
+  getFullFilePath,
+  findWatchedFile,
+  getRetentionPolicy,
+  setRetentionInConfig,
+  setSnapshotSettingInConfig,
+  getSnapshotSettings,
+  SNAPSHOT_DEFAULTS,
+  ConfigError,
+  type AppConfig,
+  type ProjectConfig,
+} from "./config.ts";
+import {
+  getLog,
+  getDiff,
+  getWorkingDiff,
+  getContent,
+  addLabel,
+  removeLabel,
+  resolveRevision,
+  searchLog,
+  parseSearchQuery,
+  searchMatcher,
+  checkSearchQuery,
+  getBlame,
+  getFileSummary,
+  type SearchQuery,
+  type BlameLine,
+  restore,
+  restoreHunks,
+  getSnapshotCount,
+  getLatestSnapshot,
+  listProjectFilesWithDeleted,
+  snapshot,
+  type SnapshotInfo,
+} from "./tracker.ts";
+import { syncWatching, stopAll, onSnapshot, onWatchError, catchUp, type CatchUpResult } from "./watcher.ts";
+import { connectToDaemon, REWRITE_TIMEOUT_MS } from "./daemon.ts";
+import { onHookFailure } from "./hooks.ts";
+import { pruneProject, pruneAll, startAutoPrune, parseRetention, formatRetention, type PruneResult } from "./retention.ts";
 import { openInEditor, getLinkInstructions } from "./editor.ts";
-import { relativeTime, projectSlug } from "./utils.ts";
-import { resolve as resolvePath, basename as basenamePath, dirname as dirnamePath } from "path";
+import { exportHistory, exportFileName, isExportFormat, EXPORT_FORMATS } from "./export.ts";
+import { importGitHistory } from "./import.ts";
+import { formatSummary, isBinary, PREVIEW_MAX_BYTES } from "./blobs.ts";
+import { SETTING_NAMES, parseSettingValue, formatSettings } from "./settings.ts";
+import { relativeTime, formatBytes } from "./utils.ts";
+import { existsSync, writeFileSync } from "fs";
+import { resolve } from "path";
+import { parseDiff, formatDiff, findHunk, countChanges, changedLines, type ParsedDiff } from "./patch.ts";
 
 import { createProjectList, updateProjectList, type ProjectItem } from "./ui/project-list.ts";
 import { createFileList, updateFileList, type FileItem } from "./ui/file-list.ts";
 import { createSnapshotList, updateSnapshotList } from "./ui/snapshot-list.ts";
-import { createPreview, updatePreview } from "./ui/preview.ts";
-import { createCommandBar, showInput, hideInput, setStatus, updateHints, type CommandBar } from "./ui/command-bar.ts";
+import {
+  createPreview,
+  updatePreview,
+  updateBlame,
+  updatePlayback,
+  fadePlayback,
+  setDiffStyle,
+  shownDiff,
+  type PreviewMode,
+} from "./ui/preview.ts";
+import {
+  createCommandBar,
+  showInput,
+  hideInput,
+  setStatus,
+  updateHints,
+  showPlaybackHints,
+  type CommandBar,
+} from "./ui/command-bar.ts";
 
 // Column indices
 const COL_PROJECTS = 0;
@@ -27,6 +94,70 @@ const COL_SNAPSHOTS = 2;
 const COL_PREVIEW = 3;
 const WIDE_LAYOUT_BREAKPOINT = 120;
 const SNAPSHOT_DIFF_ONLY_BREAKPOINT = 105;
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+const PLAYBACK_FRAME_MS = 1000; // time on each snapshot at 1x
+const PLAYBACK_FADE_MS = 600; // how long changed lines stay marked
+const PLAYBACK_BAR_WIDTH = 12;
+
+function describePrune(results: PruneResult[], dryRun: boolean): string {
+  const before = results.reduce((n, r) => n + r.snapshotsBefore, 0);
+  const after = results.reduce((n, r) => n + r.snapshotsAfter, 0);
+  if (dryRun) return `Prune would keep ${after} of ${before} snapshots`;
+  const reclaimed = results.reduce((n, r) => n + Math.max(0, r.bytesBefore - r.bytesAfter), 0);
+  return `Pruned ${before - after} of ${before} snapshots, reclaimed ${formatBytes(reclaimed)}`;
+}
+
+function describeCatchUp(results: CatchUpResult[]): string {
+  const names = results.map((r) => (r.deleted ? `${r.fileName} (deleted)` : r.fileName));
+  const shown = names.length > 3 ? [...names.slice(0, 3), `${names.length - 3} more`] : names;
+  return `Caught up on ${results.length} file${results.length !== 1 ? "s" : ""} changed while DiffDen was closed: ${shown.join(", ")}`;
+}
+
+/** Remove `flag <value>` from a command's arguments and return the value. */
+function takeOption(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1) return undefined;
+  const [, value] = args.splice(index, 2);
+  return value;
+}
+
+interface PendingConfirm {
+  prompt: string;
+  run: () => Promise<void>;
+}
+
+interface LastRestore {
+  slug: string;
+  fileName: string;
+  destPath: string;
+  checkpoint: string; // snapshot holding the contents the restore overwrote
+}
+
+interface Playback {
+  frames: SnapshotInfo[]; // oldest first, copied so new snapshots don't shift playback
+  index: number;
+  playing: boolean;
+  speed: number; // index into PLAYBACK_SPEEDS
+  timer: ReturnType<typeof setTimeout> | null;
+  fade: ReturnType<typeof setTimeout> | null;
+  loading: number; // bumped per frame so a slow load can't overwrite a newer one
+}
+
+function formatPlaybackTime(date: Date, withDate: boolean): string {
+  return withDate ? date.toLocaleString() : date.toLocaleTimeString();
+}
+
+function playbackTitle(playback: Playback): string {
+  const { frames, index } = playback;
+  const first = frames[0]!.date;
+  const last = frames[frames.length - 1]!.date;
+  const withDate = first.toDateString() !== last.toDateString();
+  const filled = frames.length > 1 ? Math.round((index / (frames.length - 1)) * PLAYBACK_BAR_WIDTH) : PLAYBACK_BAR_WIDTH;
+  const bar = "━".repeat(filled) + "─".repeat(PLAYBACK_BAR_WIDTH - filled);
+  const icon = playback.playing ? "▶" : "⏸";
+  const time = `${formatPlaybackTime(frames[index]!.date, withDate)} of ${formatPlaybackTime(last, withDate)}`;
+  return ` ${icon} ${index + 1}/${frames.length} ${bar} ${time} · ${PLAYBACK_SPEEDS[playback.speed]}× `;
+}
 
 interface AppState {
   config: AppConfig;
@@ -35,9 +166,18 @@ interface AppState {
   selectedFileName: string | null;
   selectedSnapshot: SnapshotInfo | null;
   snapshots: SnapshotInfo[];
-  previewMode: "diff" | "full";
+  baseSnapshot: SnapshotInfo | null; // diff the selection against this instead of its parent
+  compareLive: boolean; // diff the selection against the file on disk
+  search: SearchQuery | null; // when set, the Snapshots column only lists matching snapshots
+  previewMode: PreviewMode;
   expandedColumn: number | null;
   commandMode: boolean;
+  diff: ParsedDiff | null; // the diff in the preview, before any hunks are scrolled past
+  selectedHunk: number | null; // null until the next diff picks a starting hunk
+  hunkAnchor: number | null; // other end of a hunk range
+  confirm: PendingConfirm | null; // answered with y/n before any other key
+  lastRestore: LastRestore | null;
+  playback: Playback | null; // replaying the file's snapshots in the preview
 }
 
 export async function startApp(initialFilePath?: string) {
@@ -50,6 +190,10 @@ export async function startApp(initialFilePath?: string) {
 
   await renderer.setupTerminal();
 
+  // When a daemon is running it owns the watchers; the TUI only follows its events.
+  // If it goes away, detachDaemon starts local watchers instead.
+  let daemon = await connectToDaemon();
+
   const state: AppState = {
     config: loadConfig(),
     focusedColumn: 0,
@@ -57,15 +201,22 @@ export async function startApp(initialFilePath?: string) {
     selectedFileName: null,
     selectedSnapshot: null,
     snapshots: [],
+    baseSnapshot: null,
+    compareLive: false,
+    search: null,
     previewMode: "diff",
     expandedColumn: null,
     commandMode: false,
+    diff: null,
+    selectedHunk: null,
+    hunkAnchor: null,
+    confirm: null,
+    lastRestore: null,
+    playback: null,
   };
 
-  // If initial file was provided, add it
-  if (initialFilePath) {
-    state.config = addFileToConfig(state.config, initialFilePath);
-  }
+  // If initial file was provided, add it; it's snapshotted once the watchers are up
+  const initialTarget = initialFilePath ? addWatchTarget(state.config, initialFilePath) : null;
 
   // Create the root layout
   const rootBox = new BoxRenderable(renderer.root.ctx, {
@@ -176,7 +327,18 @@ export async function startApp(initialFilePath?: string) {
   renderer.root.add(rootBox);
 
   function getPreviewFocusable() {
-    return state.previewMode === "diff" ? preview.diffText : preview.fullText;
+    if (state.playback) return preview.playText;
+    if (state.previewMode === "blame") return preview.blameList;
+    return state.previewMode === "diff" ? shownDiff(preview) : preview.fullText;
+  }
+
+  // Split diffs need the room of the wide layout; narrower terminals get unified.
+  function applyDiffStyle(): boolean {
+    const view = state.config.diffView === "split" && renderer.width >= WIDE_LAYOUT_BREAKPOINT ? "split" : "unified";
+    const words = state.config.wordDiff ?? false;
+    const changed = view !== preview.diffStyle.view || words !== preview.diffStyle.words;
+    setDiffStyle(preview, { view, words });
+    return changed;
   }
 
   function getColumnRenderable(col: number) {
@@ -303,18 +465,25 @@ export async function startApp(initialFilePath?: string) {
   }
 
   async function refreshProjects() {
-    state.config = loadConfig();
+    try {
+      state.config = loadConfig();
+    } catch (err) {
+      // Keep running on the config already in memory until the file is fixed.
+      if (!(err instanceof ConfigError)) throw err;
+      setStatus(commandBar, err.message);
+    }
     const items: ProjectItem[] = [];
     for (const project of state.config.projects) {
-      const fileCount = project.files.length;
-      items.push({ slug: project.slug, dir: project.dir, fileCount });
+      const fileCount = listProjectFiles(project).length;
+      items.push({ slug: project.slug, name: project.name, dir: project.dir, fileCount });
     }
     updateProjectList(projectList, items);
 
+    const title = daemon ? " DiffDen · daemon" : " DiffDen";
     if (items.length === 0) {
-      titleBar.content = " DiffDen — use /watch <path> to add a file ";
+      titleBar.content = `${title} — use /watch <path> to add a file `;
     } else {
-      titleBar.content = " DiffDen ";
+      titleBar.content = `${title} `;
     }
   }
 
@@ -325,17 +494,18 @@ export async function startApp(initialFilePath?: string) {
     }
     const project = state.selectedProject;
     const items: FileItem[] = [];
-    for (const fileName of project.files) {
+    for (const fileName of await listProjectFilesWithDeleted(project)) {
       const count = await getSnapshotCount(project.slug, fileName);
       const latest = await getLatestSnapshot(project.slug, fileName);
       items.push({
         fileName,
         snapshotCount: count,
         lastChanged: latest?.date ?? null,
+        missing: !existsSync(getFullFilePath(project, fileName)),
       });
     }
     updateFileList(fileList, items);
-    fileBox.title = ` Files — ${project.slug} `;
+    fileBox.title = ` Files — ${project.name} `;
   }
 
   async function refreshSnapshots() {
@@ -345,10 +515,14 @@ export async function startApp(initialFilePath?: string) {
       state.selectedSnapshot = null;
       return;
     }
-    const snaps = await getLog(state.selectedProject.slug, state.selectedFileName);
+    const snaps = state.search
+      ? await searchLog(state.selectedProject.slug, state.selectedFileName, state.search)
+      : await getLog(state.selectedProject.slug, state.selectedFileName);
     state.snapshots = snaps;
-    updateSnapshotList(snapshotList, snaps);
-    snapshotBox.title = ` Snapshots — ${state.selectedFileName} `;
+    updateSnapshotList(snapshotList, snaps, state.baseSnapshot?.hash);
+    snapshotBox.title = state.search
+      ? ` Snapshots — ${state.selectedFileName} — "${state.search.text}" (${snaps.length}) `
+      : ` Snapshots — ${state.selectedFileName} `;
 
     if (snaps.length === 0) {
       state.selectedSnapshot = null;
@@ -366,15 +540,62 @@ export async function startApp(initialFilePath?: string) {
   }
 
   async function refreshPreview() {
+    if (state.playback) return; // playback owns the preview until it stops
     if (!state.selectedProject || !state.selectedFileName || !state.selectedSnapshot) {
+      state.diff = null;
       updatePreview(preview, "", state.previewMode, state.selectedFileName);
       return;
     }
     const snap = state.selectedSnapshot;
+    const summary = await getFileSummary(state.selectedProject.slug, snap.hash, state.selectedFileName, {
+      base: state.baseSnapshot?.hash,
+      livePath: state.compareLive ? getFullFilePath(state.selectedProject, state.selectedFileName) : undefined,
+    });
+    if (summary) {
+      // Binary and oversized contents get the same summary whatever the preview mode.
+      state.diff = null;
+      updatePreview(preview, formatSummary(summary), "full", null);
+      const against = state.compareLive ? " vs working" : state.baseSnapshot ? ` vs ${state.baseSnapshot.hash.slice(0, 7)}` : "";
+      const kind = isBinary(summary.content) ? "Binary file" : summary.content.length > PREVIEW_MAX_BYTES ? "Large file" : "Stored file";
+      previewBox.title = ` ${kind} ${snap.hash.slice(0, 7)}${against} `;
+      return;
+    }
     if (state.previewMode === "diff") {
-      const diff = await getDiff(state.selectedProject.slug, snap.hash, state.selectedFileName);
-      updatePreview(preview, diff, "diff", state.selectedFileName);
-      previewBox.title = " Diff ";
+      const project = state.selectedProject;
+      const fileName = state.selectedFileName;
+      const short = (hash: string) => hash.slice(0, 7);
+      let diff: string;
+      let range: string;
+      if (state.compareLive) {
+        diff = await getWorkingDiff(project.slug, snap.hash, fileName, getFullFilePath(project, fileName));
+        range = `${short(snap.hash)}..working`;
+      } else if (state.baseSnapshot) {
+        diff = await getDiff(project.slug, snap.hash, fileName, state.baseSnapshot.hash);
+        range = `${short(state.baseSnapshot.hash)}..${short(snap.hash)}`;
+      } else {
+        diff = await getDiff(project.slug, snap.hash, fileName);
+        range = short(snap.hash);
+      }
+      const parsed = parseDiff(diff);
+      state.diff = parsed.hunks.length > 0 ? parsed : null;
+      if (state.selectedHunk === null) {
+        // Open at the first hunk that adds or removes a search match.
+        state.selectedHunk = state.search ? Math.max(0, findHunk(parsed, searchMatcher(state.search))) : 0;
+      }
+      const lastHunk = Math.max(0, parsed.hunks.length - 1);
+      state.selectedHunk = Math.min(state.selectedHunk, lastHunk);
+      if (state.hunkAnchor !== null) state.hunkAnchor = Math.min(state.hunkAnchor, lastHunk);
+
+      // The renderer can't scroll to a hunk, so drop the ones above the selection.
+      const hunks = selectedHunks();
+      if (hunks[0]! > 0) diff = formatDiff({ header: parsed.header, hunks: parsed.hunks.slice(hunks[0]) });
+      updatePreview(preview, diff, "diff", fileName);
+      const position = state.diff ? ` · ${hunkLabel(hunks)}/${parsed.hunks.length}` : "";
+      previewBox.title = ` Diff ${range}${position} `;
+    } else if (state.previewMode === "blame") {
+      const lines = await getBlame(state.selectedProject.slug, snap.hash, state.selectedFileName);
+      updateBlame(preview, lines);
+      previewBox.title = ` Blame ${snap.hash.slice(0, 7)} `;
     } else {
       const content = await getContent(state.selectedProject.slug, snap.hash, state.selectedFileName);
       updatePreview(preview, content, "full", state.selectedFileName);
@@ -382,6 +603,245 @@ export async function startApp(initialFilePath?: string) {
     }
   }
 
+  // Hunk indexes between the anchor and the selected hunk, in order.
+  function selectedHunks(): number[] {
+    const current = state.selectedHunk ?? 0;
+    const anchor = state.hunkAnchor ?? current;
+    const from = Math.min(anchor, current);
+    return Array.from({ length: Math.abs(anchor - current) + 1 }, (_, i) => from + i);
+  }
+
+  function hunkLabel(indexes: number[]): string {
+    const first = indexes[0]! + 1;
+    const last = indexes[indexes.length - 1]! + 1;
+    return first === last ? `hunk ${first}` : `hunks ${first}-${last}`;
+  }
+
+  // Like hunkLabel, for indexes that may have gaps.
+  function hunkList(indexes: number[]): string {
+    const numbers = indexes.map((i) => i + 1).join(", ");
+    return indexes.length === 1 ? `hunk ${numbers}` : `hunks ${numbers}`;
+  }
+
+  function resetHunks() {
+    state.selectedHunk = null;
+    state.hunkAnchor = null;
+  }
+
+  // Undo the selected hunks of the previewed diff in the live file.
+  async function requestHunkRestore() {
+    if (!state.selectedProject || !state.selectedFileName || !state.diff) {
+      setStatus(commandBar, "No hunk selected");
+      return;
+    }
+    const project = state.selectedProject;
+    const fileName = state.selectedFileName;
+    const parsed = state.diff;
+    const indexes = selectedHunks();
+    const label = hunkLabel(indexes);
+    const livePath = getFullFilePath(project, fileName);
+
+    askConfirm(`Revert ${label} in ${fileName}?`, async () => {
+      const result = await restoreHunks(project.slug, fileName, livePath, parsed, indexes);
+      if (!result) {
+        setStatus(commandBar, `Could not update ${fileName}`);
+        return;
+      }
+      if (result.applied.length === 0) {
+        setStatus(commandBar, `Conflict: ${label} no longer matches ${fileName}`);
+        return;
+      }
+      const conflicts = result.conflicts.length > 0 ? `; conflict in ${hunkList(result.conflicts)}` : "";
+      if (result.checkpoint) {
+        state.lastRestore = { slug: project.slug, fileName, destPath: livePath, checkpoint: result.checkpoint };
+      }
+      state.hunkAnchor = null;
+      await afterRestore(project.slug, fileName);
+      setStatus(commandBar, `Reverted ${hunkList(result.applied)}${conflicts} · /undo-restore to revert`);
+    });
+  }
+
+  function askConfirm(prompt: string, run: () => Promise<void>) {
+    state.confirm = { prompt, run };
+    setStatus(commandBar, `${prompt} [y/n]`);
+  }
+
+  // The checkpoint snapshot isn't reported by the watcher, so list it here.
+  async function afterRestore(slug: string, fileName: string) {
+    if (state.selectedProject?.slug === slug && state.selectedFileName === fileName) {
+      await refreshSnapshots();
+      await refreshPreview();
+    }
+  }
+
+  // Summarise what restoring the selected snapshot would do to the live file, then ask.
+  async function requestRestore() {
+    if (!state.selectedProject || !state.selectedFileName || !state.selectedSnapshot) {
+      setStatus(commandBar, "Select a snapshot first");
+      return;
+    }
+    const project = state.selectedProject;
+    const fileName = state.selectedFileName;
+    const hash = state.selectedSnapshot.hash;
+    const destPath = getFullFilePath(project, fileName);
+
+    const diff = await getWorkingDiff(project.slug, hash, fileName, destPath);
+    if (diff === "(no changes)") {
+      setStatus(commandBar, `${fileName} already matches ${hash.slice(0, 7)}`);
+      return;
+    }
+    const parsed = parseDiff(diff);
+    // The working diff runs snapshot -> live, so restoring reverses it.
+    const { added, removed } = countChanges(parsed);
+    // Without hunks it's a placeholder like "(file no longer exists on disk)", or binary contents.
+    const summary = parsed.hunks.length > 0 ? `+${removed} -${added} lines` : diff.startsWith("(") ? diff : "contents differ";
+
+    askConfirm(`Restore ${fileName} to ${hash.slice(0, 7)}? ${summary}`, async () => {
+      const result = await restore(project.slug, hash, fileName, destPath, { checkpoint: true });
+      if (!result) {
+        setStatus(commandBar, "Restore failed");
+        return;
+      }
+      state.lastRestore = result.checkpoint ? { slug: project.slug, fileName, destPath, checkpoint: result.checkpoint } : null;
+      await afterRestore(project.slug, fileName);
+      setStatus(commandBar, result.checkpoint ? "Restored · /undo-restore to revert" : "Restored");
+    });
+  }
+
+  // --- Playback ---
+
+  function startPlayback() {
+    if (!state.selectedProject || !state.selectedFileName || state.snapshots.length === 0) {
+      setStatus(commandBar, "Select a file with snapshots first");
+      return;
+    }
+    state.playback = {
+      frames: [...state.snapshots].reverse(),
+      index: 0,
+      playing: true,
+      speed: PLAYBACK_SPEEDS.indexOf(1),
+      timer: null,
+      fade: null,
+      loading: 0,
+    };
+    focusColumn(COL_PREVIEW);
+    showPlaybackHints(commandBar);
+    void showFrame(0);
+  }
+
+  // Leave the Snapshots column on the frame playback stopped at.
+  async function stopPlayback() {
+    const playback = state.playback;
+    if (!playback) return;
+    if (playback.timer) clearTimeout(playback.timer);
+    if (playback.fade) clearTimeout(playback.fade);
+    state.playback = null;
+    fadePlayback(preview);
+    const hash = playback.frames[playback.index]!.hash;
+    const index = state.snapshots.findIndex((snap) => snap.hash === hash);
+    if (index !== -1 && state.snapshots[index]!.hash !== state.selectedSnapshot?.hash) {
+      snapshotList.setSelectedIndex(index);
+    } else {
+      await refreshPreview();
+    }
+    focusColumn(COL_PREVIEW);
+    setStatus(commandBar, "Playback stopped");
+  }
+
+  async function showFrame(index: number) {
+    const playback = state.playback;
+    if (!playback || !state.selectedProject || !state.selectedFileName) return;
+    const slug = state.selectedProject.slug;
+    const fileName = state.selectedFileName;
+    index = Math.max(0, Math.min(playback.frames.length - 1, index));
+    const loading = ++playback.loading;
+    const snap = playback.frames[index]!;
+    // Against the frame before it, which isn't the parent when the list is filtered by a search.
+    const previous = playback.frames[index - 1];
+    const summary = await getFileSummary(slug, snap.hash, fileName, { base: previous?.hash });
+    const content = summary ? formatSummary(summary) : await getContent(slug, snap.hash, fileName);
+    const diff = summary ? "" : await getDiff(slug, snap.hash, fileName, previous?.hash);
+    if (state.playback !== playback || playback.loading !== loading) return;
+
+    playback.index = index;
+    updatePlayback(preview, content, summary ? null : fileName, changedLines(parseDiff(diff)));
+    previewBox.title = playbackTitle(playback);
+    if (playback.fade) clearTimeout(playback.fade);
+    const frameMs = PLAYBACK_FRAME_MS / PLAYBACK_SPEEDS[playback.speed]!;
+    playback.fade = setTimeout(() => {
+      fadePlayback(preview);
+      renderer.requestRender();
+    }, Math.min(PLAYBACK_FADE_MS, frameMs * 0.6));
+    scheduleFrame();
+    renderer.requestRender();
+  }
+
+  function scheduleFrame() {
+    const playback = state.playback;
+    if (!playback) return;
+    if (playback.timer) clearTimeout(playback.timer);
+    playback.timer = null;
+    if (!playback.playing) return;
+    if (playback.index >= playback.frames.length - 1) {
+      playback.playing = false;
+      previewBox.title = playbackTitle(playback);
+      setStatus(commandBar, "End of history · [Space] to replay");
+      return;
+    }
+    const frameMs = PLAYBACK_FRAME_MS / PLAYBACK_SPEEDS[playback.speed]!;
+    playback.timer = setTimeout(() => void showFrame(playback.index + 1), frameMs);
+  }
+
+  // Keys while playing back; returns false for keys playback leaves alone.
+  async function handlePlaybackKey(key: KeyEvent): Promise<boolean> {
+    const playback = state.playback!;
+    const last = playback.frames.length - 1;
+    const jump = Math.max(1, Math.round(playback.frames.length / 10));
+    switch (key.name) {
+      case "space":
+        playback.playing = !playback.playing;
+        if (playback.playing && playback.index >= last) await showFrame(0);
+        else scheduleFrame();
+        previewBox.title = playbackTitle(playback);
+        setStatus(commandBar, playback.playing ? "Playing" : "Paused");
+        return true;
+      case "right":
+      case "l":
+      case "left":
+      case "h": {
+        playback.playing = false;
+        const step = key.name === "right" || key.name === "l" ? 1 : -1;
+        await showFrame(playback.index + step);
+        return true;
+      }
+      case "]":
+      case "[":
+        await showFrame(playback.index + (key.name === "]" ? jump : -jump));
+        return true;
+      case "g":
+        await showFrame(key.shift ? last : 0);
+        return true;
+      case "+":
+      case "=":
+      case "-": {
+        const faster = key.name !== "-";
+        playback.speed = Math.max(0, Math.min(PLAYBACK_SPEEDS.length - 1, playback.speed + (faster ? 1 : -1)));
+        scheduleFrame();
+        previewBox.title = playbackTitle(playback);
+        setStatus(commandBar, `Speed ${PLAYBACK_SPEEDS[playback.speed]}×`);
+        return true;
+      }
+      case "p":
+      case "escape":
+        await stopPlayback();
+        return true;
+      case "q":
+        return false;
+      default:
+        return true;
+    }
+  }
+
   // --- Event handlers ---
 
   // Project selected
@@ -410,6 +870,8 @@ export async function startApp(initialFilePath?: string) {
     const item = option.value as FileItem;
     state.selectedFileName = item.fileName;
     state.selectedSnapshot = null;
+    state.baseSnapshot = null;
+    state.search = null;
     await refreshSnapshots();
     await refreshPreview();
   });
@@ -425,7 +887,9 @@ export async function startApp(initialFilePath?: string) {
   // Snapshot selected
   snapshotList.on("selectionChanged", async (_index: number, option: any) => {
     if (!option?.value) return;
-    state.selectedSnapshot = option.value as SnapshotInfo;
+    const snap = option.value as SnapshotInfo;
+    if (snap.hash !== state.selectedSnapshot?.hash) resetHunks();
+    state.selectedSnapshot = snap;
     await refreshPreview();
   });
 
@@ -433,56 +897,338 @@ export async function startApp(initialFilePath?: string) {
     focusColumn(COL_PREVIEW);
   });
 
+  // Blame line selected: jump to the snapshot that last changed it
+  preview.blameList.on("itemSelected", async (_index: number, option: any) => {
+    if (!option?.value) return;
+    const { hash } = option.value as BlameLine;
+    const index = state.snapshots.findIndex((snap) => snap.hash === hash);
+    if (index === -1) {
+      setStatus(commandBar, `Snapshot ${hash.slice(0, 7)} is not in the list`);
+      return;
+    }
+    snapshotList.setSelectedIndex(index);
+  });
+
   // Command input
   commandBar.input.on("enter", async (value: string) => {
     hideInput(commandBar);
     state.commandMode = false;
     focusColumn(state.focusedColumn);
-    await handleCommand(value.trim());
+    await handleCommand(value);
   });
 
-  async function handleCommand(cmd: string) {
+  async function handleCommand(line: string) {
+    const cmd = line.trim();
     if (!cmd.startsWith("/")) return;
     const parts = cmd.slice(1).split(/\s+/);
-    const command = parts[0];
+    const command = parts[0]!;
     const arg = parts.slice(1).join(" ");
+    // Everything after "/<command> " exactly as typed, for arguments where spacing matters.
+    const rawArg = line.trimStart().slice(command.length + 2);
 
     switch (command) {
       case "watch": {
-        if (!arg) {
-          setStatus(commandBar, "Usage: /watch <file-path>");
+        const watchArgs = parts.slice(1);
+        const root = takeOption(watchArgs, "--root");
+        const watchArg = watchArgs.join(" ");
+        if (!watchArg) {
+          setStatus(commandBar, "Usage: /watch <file | dir | glob> [--root <dir>]");
+          return;
+        }
+        let target;
+        try {
+          target = addWatchTarget(state.config, watchArg, root);
+        } catch (err) {
+          setStatus(commandBar, (err as Error).message);
           return;
         }
-        state.config = addFileToConfig(state.config, arg);
-        const watchAbsPath = resolvePath(arg);
-        const watchSlug = projectSlug(dirnamePath(watchAbsPath));
-        await snapshot(watchSlug, watchAbsPath);
-        const watchProject = state.config.projects.find((p) => p.slug === watchSlug);
-        if (watchProject) await startWatching(watchProject);
+        await reloadWatchers();
+        for (const fileName of target.fileNames) {
+          await snapshotWatched(target.project, fileName);
+        }
         await refreshProjects();
-        setStatus(commandBar, `Watching: ${basenamePath(watchAbsPath)}`);
+        setStatus(commandBar, `Watching: ${watchArg}`);
         break;
       }
       case "unwatch": {
-        if (!arg) {
-          setStatus(commandBar, "Usage: /unwatch <file-path>");
+        const unwatchArgs = parts.slice(1);
+        const root = takeOption(unwatchArgs, "--root");
+        const unwatchArg = unwatchArgs.join(" ");
+        if (!unwatchArg) {
+          setStatus(commandBar, "Usage: /unwatch <file | dir | glob> [--root <dir>]");
+          return;
+        }
+        try {
+          state.config = removeWatchTarget(state.config, unwatchArg, root);
+        } catch (err) {
+          setStatus(commandBar, (err as Error).message);
+          return;
+        }
+        await reloadWatchers();
+        await refreshProjects();
+        setStatus(commandBar, `Unwatched: ${unwatchArg}`);
+        break;
+      }
+      case "ignore": {
+        if (!arg || !state.selectedProject) {
+          setStatus(commandBar, state.selectedProject ? "Usage: /ignore <glob>" : "Select a project first");
           return;
         }
-        const unwatchAbsPath = resolvePath(arg);
-        const unwatchSlug = projectSlug(dirnamePath(unwatchAbsPath));
-        await stopWatching(unwatchSlug, basenamePath(unwatchAbsPath));
-        state.config = removeFileFromConfig(state.config, arg);
+        state.config = addIgnoreToConfig(state.config, state.selectedProject.slug, arg);
+        await reloadWatchers();
         await refreshProjects();
-        setStatus(commandBar, `Unwatched: ${basenamePath(unwatchAbsPath)}`);
+        state.selectedProject = state.config.projects.find((p) => p.slug === state.selectedProject?.slug) ?? null;
+        await refreshFiles();
+        setStatus(commandBar, `Ignoring: ${arg}`);
         break;
       }
       case "restore": {
-        if (state.selectedProject && state.selectedFileName && state.selectedSnapshot) {
-          const destPath = getFullFilePath(state.selectedProject, state.selectedFileName);
-          const ok = await restore(state.selectedProject.slug, state.selectedSnapshot.hash, state.selectedFileName, destPath);
-          setStatus(commandBar, ok ? "Restored!" : "Restore failed");
+        await requestRestore();
+        break;
+      }
+      case "restore-to": {
+        if (!arg) {
+          setStatus(commandBar, "Usage: /restore-to <path>");
+          return;
+        }
+        if (!state.selectedProject || !state.selectedFileName || !state.selectedSnapshot) {
+          setStatus(commandBar, "Select a snapshot first");
+          return;
+        }
+        const project = state.selectedProject;
+        const fileName = state.selectedFileName;
+        const hash = state.selectedSnapshot.hash;
+        const destPath = resolve(arg);
+        if (destPath === getFullFilePath(project, fileName)) {
+          setStatus(commandBar, "That is the watched file; use /restore");
+          return;
+        }
+        const write = async () => {
+          const result = await restore(project.slug, hash, fileName, destPath);
+          setStatus(commandBar, result ? `Wrote ${hash.slice(0, 7)} to ${destPath}` : "Restore failed");
+        };
+        if (existsSync(destPath)) {
+          askConfirm(`Overwrite ${destPath}?`, write);
         } else {
+          await write();
+        }
+        break;
+      }
+      case "undo-restore": {
+        const last = state.lastRestore;
+        if (!last) {
+          setStatus(commandBar, "Nothing to undo");
+          return;
+        }
+        const result = await restore(last.slug, last.checkpoint, last.fileName, last.destPath, { checkpoint: true });
+        if (!result) {
+          setStatus(commandBar, "Undo failed");
+          return;
+        }
+        // Undoing again re-applies the restore.
+        state.lastRestore = result.checkpoint ? { ...last, checkpoint: result.checkpoint } : null;
+        await afterRestore(last.slug, last.fileName);
+        setStatus(commandBar, `Undid restore of ${last.fileName}`);
+        break;
+      }
+      case "label": {
+        const [name, ...noteParts] = parts.slice(1);
+        if (!name) {
+          setStatus(commandBar, "Usage: /label <name> [note]");
+          return;
+        }
+        if (!state.selectedProject || !state.selectedSnapshot) {
           setStatus(commandBar, "Select a snapshot first");
+          return;
+        }
+        try {
+          await addLabel(state.selectedProject.slug, state.selectedSnapshot.hash, name, noteParts.join(" "));
+        } catch (err) {
+          setStatus(commandBar, (err as Error).message);
+          return;
+        }
+        await refreshSnapshots();
+        setStatus(commandBar, `Labelled: ${name}`);
+        break;
+      }
+      case "unlabel": {
+        if (!arg || !state.selectedProject) {
+          setStatus(commandBar, state.selectedProject ? "Usage: /unlabel <name>" : "Select a project first");
+          return;
+        }
+        const removed = await removeLabel(state.selectedProject.slug, arg);
+        await refreshSnapshots();
+        setStatus(commandBar, removed ? `Removed label: ${arg}` : `No label named ${arg}`);
+        break;
+      }
+      case "goto": {
+        if (!arg || !state.selectedProject) {
+          setStatus(commandBar, state.selectedProject ? "Usage: /goto <label>" : "Select a project first");
+          return;
+        }
+        const hash = await resolveRevision(state.selectedProject.slug, arg);
+        const index = hash ? state.snapshots.findIndex((snap) => snap.hash === hash) : -1;
+        if (index === -1) {
+          setStatus(commandBar, hash ? `${arg} is not a snapshot of this file` : `No label named ${arg}`);
+          return;
+        }
+        snapshotList.setSelectedIndex(index);
+        focusColumn(COL_SNAPSHOTS);
+        break;
+      }
+      case "search": {
+        if (!state.selectedProject || !state.selectedFileName) {
+          setStatus(commandBar, "Select a file first");
+          return;
+        }
+        const query = rawArg ? parseSearchQuery(rawArg) : null;
+        const problem = query ? await checkSearchQuery(state.selectedProject.slug, query) : null;
+        if (problem) {
+          setStatus(commandBar, `Search failed: ${problem}`);
+          return;
+        }
+        state.search = query;
+        resetHunks();
+        state.selectedSnapshot = null;
+        await refreshSnapshots();
+        if (query) {
+          const count = state.snapshots.length;
+          setStatus(commandBar, `${count} snapshot${count !== 1 ? "s" : ""} add or remove "${query.text}"`);
+          focusColumn(COL_SNAPSHOTS);
+        } else {
+          setStatus(commandBar, "Search cleared");
+        }
+        break;
+      }
+      case "prune": {
+        const dryRun = parts.includes("--dry-run");
+        setStatus(commandBar, "Pruning...");
+        try {
+          const slug = state.selectedProject?.slug;
+          const results = daemon
+            ? await daemon.request({ type: "prune", slug, dryRun }, REWRITE_TIMEOUT_MS)
+            : state.selectedProject
+              ? [await pruneProject(state.config, state.selectedProject, { dryRun })]
+              : await pruneAll(state.config, { dryRun });
+          setStatus(commandBar, describePrune(results, dryRun));
+        } catch (err) {
+          setStatus(commandBar, `Prune failed: ${(err as Error).message}`);
+          return;
+        }
+        state.baseSnapshot = null;
+        await refreshFiles();
+        await refreshSnapshots();
+        break;
+      }
+      case "retention": {
+        const retentionArgs = parts.slice(1);
+        const forFile = retentionArgs.includes("--file");
+        const values = retentionArgs.filter((a) => a !== "--file");
+        const project = state.selectedProject;
+        if (!project || (forFile && !state.selectedFileName)) {
+          setStatus(commandBar, forFile ? "Select a file first" : "Select a project first");
+          return;
+        }
+        const fileName = forFile ? state.selectedFileName : null;
+        if (values.length === 0) {
+          const policy = getRetentionPolicy(state.config, project, state.selectedFileName ?? "");
+          setStatus(commandBar, `Retention: ${formatRetention(policy)}`);
+          return;
+        }
+        const policy = values[0] === "off" ? null : parseRetention(values);
+        if (values[0] !== "off" && !policy) {
+          setStatus(commandBar, "Usage: /retention [--file] <keep-all> <hourly-until> [daily-until] | off  (e.g. 24h 7d 90d)");
+          return;
+        }
+        state.config = setRetentionInConfig(state.config, project.slug, fileName, policy);
+        state.selectedProject = state.config.projects.find((p) => p.slug === project.slug) ?? null;
+        setStatus(commandBar, `Retention${fileName ? ` for ${fileName}` : ""}: ${formatRetention(policy)}`);
+        break;
+      }
+      case "settings": {
+        const project = state.selectedProject;
+        if (!project) {
+          setStatus(commandBar, "Select a project first");
+          return;
+        }
+        const fileName = state.selectedFileName;
+        const settings = fileName ? getSnapshotSettings(project, fileName) : { ...SNAPSHOT_DEFAULTS, ...project.snapshot };
+        setStatus(commandBar, `${fileName ?? project.name}: ${formatSettings(settings)}`);
+        break;
+      }
+      case "set": {
+        const setArgs = parts.slice(1);
+        const forFile = setArgs.includes("--file");
+        const [name, value] = setArgs.filter((a) => a !== "--file");
+        const project = state.selectedProject;
+        if (!project || (forFile && !state.selectedFileName)) {
+          setStatus(commandBar, forFile ? "Select a file first" : "Select a project first");
+          return;
+        }
+        const key = name ? SETTING_NAMES[name] : undefined;
+        const parsed = key && value && value !== "default" ? parseSettingValue(key, value) : undefined;
+        if (!key || !value || (value !== "default" && parsed === undefined)) {
+          setStatus(commandBar, `Usage: /set [--file] <${Object.keys(SETTING_NAMES).join("|")}> <value | default>`);
+          return;
+        }
+        const fileName = forFile ? state.selectedFileName : null;
+        state.config = setSnapshotSettingInConfig(state.config, project.slug, fileName, key, parsed ?? null);
+        state.selectedProject = state.config.projects.find((p) => p.slug === project.slug) ?? null;
+        // Watchers read settings from the config they were last given.
+        await reloadWatchers();
+        setStatus(commandBar, `${fileName ?? project.name}: ${name} ${value}`);
+        break;
+      }
+      case "import-history": {
+        const target = arg
+          ? findWatchedFile(state.config, arg)
+          : state.selectedProject && state.selectedFileName
+            ? { project: state.selectedProject, fileName: state.selectedFileName }
+            : null;
+        if (!target) {
+          setStatus(commandBar, arg ? `Not a watched file: ${arg}` : "Usage: /import-history <file>");
+          return;
+        }
+        setStatus(commandBar, `Importing ${target.fileName}...`);
+        try {
+          const result = daemon
+            ? await daemon.request(
+                { type: "import", slug: target.project.slug, fileName: target.fileName },
+                REWRITE_TIMEOUT_MS,
+              )
+            : await importGitHistory(target.project, target.fileName);
+          if (state.selectedProject?.slug === target.project.slug) {
+            // Every hash in the repo changed, so reload rather than keep the selection.
+            state.selectedSnapshot = null;
+            state.baseSnapshot = null;
+            await refreshFiles();
+            await refreshSnapshots();
+          }
+          setStatus(commandBar, `Imported ${result.imported} commits of ${target.fileName}`);
+        } catch (err) {
+          setStatus(commandBar, (err as Error).message);
+        }
+        break;
+      }
+      case "export": {
+        const exportArgs = parts.slice(1);
+        const range = { from: takeOption(exportArgs, "--from"), to: takeOption(exportArgs, "--to") };
+        const [format, output] = exportArgs;
+        if (!format || !isExportFormat(format)) {
+          setStatus(commandBar, `Usage: /export <${EXPORT_FORMATS.join("|")}> [path] [--from <rev>] [--to <rev>]`);
+          return;
+        }
+        if (!state.selectedProject || !state.selectedFileName) {
+          setStatus(commandBar, "Select a file first");
+          return;
+        }
+        const destPath = resolve(output ?? exportFileName(state.selectedFileName, format));
+        try {
+          const result = await exportHistory(state.selectedProject.slug, state.selectedFileName, format, range);
+          writeFileSync(destPath, result.data);
+          setStatus(commandBar, `Exported ${result.snapshots} snapshots to ${destPath}`);
+        } catch (err) {
+          setStatus(commandBar, (err as Error).message);
         }
         break;
       }
@@ -525,9 +1271,25 @@ export async function startApp(initialFilePath?: string) {
       return;
     }
 
+    if (state.confirm) {
+      const pending = state.confirm;
+      state.confirm = null;
+      if (key.name === "y") await pending.run();
+      else setStatus(commandBar, "Cancelled");
+      return;
+    }
+
+    if (state.playback && (await handlePlaybackKey(key))) {
+      renderer.requestRender();
+      return;
+    }
+
     switch (key.name) {
       case "q":
         await stopAll();
+        const attached = daemon;
+        daemon = null; // closing it mustn't start local watchers on the way out
+        attached?.close();
         renderer.destroy();
         process.exit(0);
         break;
@@ -561,7 +1323,8 @@ export async function startApp(initialFilePath?: string) {
 
       case "tab": {
         if (state.focusedColumn >= 2 && state.selectedSnapshot) {
-          state.previewMode = state.previewMode === "diff" ? "full" : "diff";
+          const modes: PreviewMode[] = ["diff", "full", "blame"];
+          state.previewMode = modes[(modes.indexOf(state.previewMode) + 1) % modes.length]!;
           applyColumnLayout();
           await refreshPreview();
           if (state.focusedColumn === COL_PREVIEW) {
@@ -571,15 +1334,91 @@ export async function startApp(initialFilePath?: string) {
         break;
       }
 
+      case "n": {
+        if (state.focusedColumn >= COL_SNAPSHOTS && state.selectedSnapshot) {
+          state.commandMode = true;
+          showInput(commandBar, "/label ");
+        }
+        break;
+      }
+
+      case "b": {
+        if (state.focusedColumn >= COL_SNAPSHOTS && state.selectedSnapshot) {
+          const unmark = state.baseSnapshot?.hash === state.selectedSnapshot.hash;
+          state.baseSnapshot = unmark ? null : state.selectedSnapshot;
+          resetHunks();
+          updateSnapshotList(snapshotList, state.snapshots, state.baseSnapshot?.hash);
+          snapshotList.setSelectedIndex(state.snapshots.indexOf(state.selectedSnapshot));
+          await refreshPreview();
+          setStatus(commandBar, unmark ? "Base cleared" : `Base: ${state.selectedSnapshot.hash.slice(0, 7)}`);
+        }
+        break;
+      }
+
+      case "w": {
+        if (state.focusedColumn >= COL_SNAPSHOTS && state.selectedSnapshot) {
+          state.compareLive = !state.compareLive;
+          resetHunks();
+          await refreshPreview();
+          setStatus(commandBar, state.compareLive ? "Comparing with live file" : "Comparing snapshots");
+        }
+        break;
+      }
+
       case "r": {
-        if (state.selectedProject && state.selectedFileName && state.selectedSnapshot) {
-          const destPath = getFullFilePath(state.selectedProject, state.selectedFileName);
-          const ok = await restore(state.selectedProject.slug, state.selectedSnapshot.hash, state.selectedFileName, destPath);
-          setStatus(commandBar, ok ? "Restored!" : "Restore failed");
+        if (state.selectedSnapshot) await requestRestore();
+        break;
+      }
+
+      case "p": {
+        if (state.focusedColumn >= COL_SNAPSHOTS) startPlayback();
+        break;
+      }
+
+      case "s":
+      case "d": {
+        if (state.focusedColumn >= COL_SNAPSHOTS) {
+          if (key.name === "s") state.config.diffView = state.config.diffView === "split" ? "unified" : "split";
+          else state.config.wordDiff = !state.config.wordDiff;
+          saveConfig(state.config);
+          applyDiffStyle();
+          if (state.previewMode === "diff") await refreshPreview();
+          const view =
+            state.config.diffView === "split" && preview.diffStyle.view === "unified"
+              ? "Split view (unified until the terminal is wider)"
+              : preview.diffStyle.view === "split"
+                ? "Split view"
+                : "Unified view";
+          setStatus(commandBar, `${view}${state.config.wordDiff ? ", word diff" : ""}`);
         }
         break;
       }
 
+      case "]":
+      case "[": {
+        if (state.focusedColumn === COL_PREVIEW && state.previewMode === "diff" && state.diff) {
+          const step = key.name === "]" ? 1 : -1;
+          const next = (state.selectedHunk ?? 0) + step;
+          state.selectedHunk = Math.max(0, Math.min(state.diff.hunks.length - 1, next));
+          await refreshPreview();
+        }
+        break;
+      }
+
+      case "v": {
+        if (state.focusedColumn === COL_PREVIEW && state.previewMode === "diff" && state.diff) {
+          state.hunkAnchor = state.hunkAnchor === null ? (state.selectedHunk ?? 0) : null;
+          await refreshPreview();
+          setStatus(commandBar, state.hunkAnchor === null ? "Hunk range cleared" : "Hunk range started; extend with [ ]");
+        }
+        break;
+      }
+
+      case "u": {
+        if (state.focusedColumn === COL_PREVIEW && state.previewMode === "diff") await requestHunkRestore();
+        break;
+      }
+
       case "o": {
         const focused = state.focusedColumn;
         state.expandedColumn = state.expandedColumn === focused ? null : focused;
@@ -598,7 +1437,14 @@ export async function startApp(initialFilePath?: string) {
   });
 
   // --- File watcher callback ---
-  onSnapshot(async (slug: string, fileName: string) => {
+  async function handleSnapshot(slug: string, fileName: string) {
+    // A watched file renamed on disk is renamed in config.json by the watcher,
+    // and a new file matching a pattern isn't in the cached matches yet.
+    if (state.selectedProject?.slug === slug && !listProjectFiles(state.selectedProject).includes(fileName)) {
+      forgetProjectFiles(state.selectedProject.dir);
+      await refreshProjects();
+      state.selectedProject = state.config.projects.find((p) => p.slug === slug) ?? null;
+    }
     // Refresh UI when a new snapshot is taken
     if (state.selectedProject?.slug === slug) {
       await refreshFiles();
@@ -612,21 +1458,114 @@ export async function startApp(initialFilePath?: string) {
     setStatus(commandBar, `Snapshot: ${fileName}`);
     // Clear status after 3 seconds
     setTimeout(() => setStatus(commandBar, ""), 3000);
-  });
+  }
 
-  // --- Start watchers for all configured files ---
-  for (const project of state.config.projects) {
-    await startWatching(project);
+  // Restores and /watch snapshot in this process even when the daemon runs the watchers.
+  onHookFailure((message) => setStatus(commandBar, message));
+
+  async function watchLocally() {
+    onSnapshot(handleSnapshot);
+    onWatchError((_slug, fileName, message) => setStatus(commandBar, `Watch error${fileName ? ` (${fileName})` : ""}: ${message}`));
+    await syncWatching(state.config.projects);
+    // In the background so a large project doesn't hold up the first render.
+    catchUp(state.config.projects)
+      .then(async (results) => {
+        if (results.length === 0) return;
+        if (results.some((r) => r.slug === state.selectedProject?.slug)) {
+          await refreshFiles();
+          await refreshSnapshots();
+        }
+        setStatus(commandBar, describeCatchUp(results));
+        renderer.requestRender();
+      })
+      .catch((err) => {
+        setStatus(commandBar, `Catch-up failed: ${(err as Error).message}`);
+        renderer.requestRender();
+      });
+    startAutoPrune(
+      (results) => {
+        if (results.some((r) => r.snapshotsAfter < r.snapshotsBefore)) {
+          setStatus(commandBar, describePrune(results, false));
+        }
+      },
+      (err) => setStatus(commandBar, `Auto-prune failed: ${err.message}`),
+    );
+  }
+
+  /** Drop the daemon connection and run the watchers in this process instead. */
+  async function detachDaemon(reason: string) {
+    if (!daemon) return;
+    const attached = daemon;
+    daemon = null;
+    attached.close();
+    await watchLocally();
+    await refreshProjects();
+    setStatus(commandBar, `${reason}; watching in this window`);
+    renderer.requestRender();
+  }
+
+  async function reloadWatchers() {
+    if (daemon) {
+      try {
+        await daemon.request({ type: "reload" });
+        return;
+      } catch (err) {
+        await detachDaemon((err as Error).message);
+        return; // watchLocally picked up the current config
+      }
+    }
+    await syncWatching(state.config.projects);
+  }
+
+  async function snapshotWatched(project: ProjectConfig, fileName: string) {
+    if (daemon) {
+      try {
+        await daemon.request({ type: "snapshot", slug: project.slug, fileName });
+        return;
+      } catch (err) {
+        await detachDaemon((err as Error).message);
+      }
+    }
+    await snapshot(project.slug, getFullFilePath(project, fileName), fileName);
+  }
+
+  // --- Start watchers for all configured files, or follow the daemon's ---
+  if (daemon) {
+    daemon.onEvent((event) => {
+      if (event.event === "hook-failed") setStatus(commandBar, event.message);
+      else {
+        handleSnapshot(event.slug, event.fileName).catch((err) =>
+          setStatus(commandBar, `Refresh failed: ${(err as Error).message}`),
+        );
+      }
+    });
+    daemon.onClose(() => detachDaemon("Daemon stopped"));
+    try {
+      await daemon.request({ type: "subscribe" });
+    } catch (err) {
+      await detachDaemon((err as Error).message);
+    }
+  } else {
+    await watchLocally();
+  }
+  if (initialTarget) {
+    // Local watchers already started from the updated config; a daemon has to be told.
+    if (daemon) await reloadWatchers();
+    for (const fileName of initialTarget.fileNames) {
+      await snapshotWatched(initialTarget.project, fileName);
+    }
   }
 
   // --- Initial render ---
+  applyDiffStyle();
   applyColumnLayout();
   await refreshProjects();
   focusColumn(COL_PROJECTS);
 
   // Handle resize
-  renderer.root.on("resized", () => {
+  renderer.root.on("resized", async () => {
     updateColumnVisibility();
+    if (applyDiffStyle() && state.previewMode === "diff") await refreshPreview();
     renderer.requestRender();
   });
 
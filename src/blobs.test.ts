@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import { compareBytes, describeType, formatPointer, isBinary, parsePointer } from "./blobs.ts";
+
+const OID = "4d7a214614ab2935c943f9e0ff69d22eadbb8f32b1258daaa5e2ca24d17e2393";
+
+describe("parsePointer", () => {
+  test("reads back what formatPointer writes", () => {
+    for (const size of [0, 12345, 10 ** 19]) {
+      const text = formatPointer({ oid: OID, size });
+      expect(parsePointer(text)).toEqual({ oid: OID, size });
+      expect(parsePointer(Buffer.from(text))).toEqual({ oid: OID, size });
+    }
+  });
+
+  test("rejects near misses", () => {
+    const text = formatPointer({ oid: OID, size: 12345 });
+    expect(parsePointer(text.trimEnd())).toBeNull();
+    expect(parsePointer(text + "\n")).toBeNull();
+    expect(parsePointer(text.replace("sha256", "sha1  "))).toBeNull();
+    expect(parsePointer(text.replace(OID, OID.toUpperCase()))).toBeNull();
+    expect(parsePointer(text.replace("v1", "v2"))).toBeNull();
+  });
+});
+
+describe("compareBytes", () => {
+  const bytes = (text: string) => Buffer.from(text);
+
+  test("treats a first version as entirely changed", () => {
+    expect(compareBytes(null, bytes("hello"))).toEqual({ sizeBefore: null, sizeAfter: 5, changedBytes: 5, firstChange: 0 });
+  });
+
+  test("finds no change between identical content", () => {
+    expect(compareBytes(bytes("hello"), bytes("hello"))).toEqual({ sizeBefore: 5, sizeAfter: 5, changedBytes: 0, firstChange: null });
+  });
+
+  test("measures the span between the common prefix and suffix", () => {
+    expect(compareBytes(bytes("hello world"), bytes("hello there world"))).toEqual({
+      sizeBefore: 11,
+      sizeAfter: 17,
+      changedBytes: 6,
+      firstChange: 6,
+    });
+    expect(compareBytes(bytes("abcdef"), bytes("abXdef"))).toMatchObject({ changedBytes: 1, firstChange: 2 });
+  });
+
+  test("counts nothing changed for a pure deletion", () => {
+    expect(compareBytes(bytes("abcdef"), bytes("abef"))).toMatchObject({ changedBytes: 0, firstChange: 2 });
+  });
+
+  test("doesn't let the prefix and suffix overlap on repeated bytes", () => {
+    expect(compareBytes(bytes("aaaa"), bytes("aaaaaa"))).toMatchObject({ changedBytes: 2, firstChange: 4 });
+    expect(compareBytes(bytes("aaaaaa"), bytes("aaaa"))).toMatchObject({ changedBytes: 0, firstChange: 4 });
+  });
+});
+
+describe("describeType", () => {
+  test("recognises magic numbers", () => {
+    expect(describeType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]))).toBe("PNG image");
+    expect(describeType(Buffer.from("%PDF-1.7"))).toBe("PDF document");
+    expect(describeType(Buffer.from([0x1f, 0x8b, 0x08]))).toBe("gzip archive");
+  });
+
+  test("falls back to git's binary heuristic", () => {
+    expect(describeType(Buffer.from([1, 2, 0, 3]))).toBe("binary data");
+    expect(describeType(Buffer.from("just notes\n"))).toBe("text");
+    expect(isBinary(Buffer.from("just notes\n"))).toBe(false);
+  });
+});
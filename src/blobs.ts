@@ -0,0 +1,200 @@
+import { createHash } from "crypto";
+import { closeSync, existsSync, mkdirSync, openSync, readFileSync, readSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { getRepoPath } from "./config.ts";
+import { runGit } from "./history.ts";
+import { formatBytes } from "./utils.ts";
+
+// Binary and large file support: detection, a metadata summary in place of a
+// preview, and git LFS-style pointers that keep big contents out of history.
+
+/** Bytes git itself looks at when deciding whether a file is binary. */
+const SNIFF_BYTES = 8000;
+
+/** Larger contents are summarised instead of shown in the preview. */
+export const PREVIEW_MAX_BYTES = 1024 * 1024;
+
+const POINTER_VERSION = "version https://git-lfs.github.com/spec/v1";
+const POINTER = /^version https:\/\/git-lfs\.github\.com\/spec\/v1\noid sha256:([0-9a-f]{64})\nsize (\d+)\n$/;
+// A pointer is 125 bytes plus the digits of the size, so only blobs about that size are checked.
+const POINTER_SIZES = { min: 126, max: 145 };
+
+/** The first bytes of a file, enough for isBinary and describeType. */
+export function readHead(path: string): Buffer {
+  const fd = openSync(path, "r");
+  try {
+    const head = Buffer.alloc(SNIFF_BYTES);
+    return head.subarray(0, readSync(fd, head, 0, SNIFF_BYTES, 0));
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** Git's heuristic: a NUL byte near the start means binary. */
+export function isBinary(content: Buffer): boolean {
+  return content.subarray(0, SNIFF_BYTES).includes(0);
+}
+
+const MAGIC: [bytes: number[], type: string][] = [
+  [[0x89, 0x50, 0x4e, 0x47], "PNG image"],
+  [[0xff, 0xd8, 0xff], "JPEG image"],
+  [[0x47, 0x49, 0x46, 0x38], "GIF image"],
+  [[0x25, 0x50, 0x44, 0x46], "PDF document"],
+  [[0x50, 0x4b, 0x03, 0x04], "ZIP archive"],
+  [[0x1f, 0x8b], "gzip archive"],
+  [[0x53, 0x51, 0x4c, 0x69, 0x74, 0x65], "SQLite database"],
+  [[0x00, 0x61, 0x73, 0x6d], "WebAssembly module"],
+  [[0x7f, 0x45, 0x4c, 0x46], "ELF executable"],
+];
+
+/** A short description of what the content is, from its magic number. */
+export function describeType(content: Buffer): string {
+  for (const [bytes, type] of MAGIC) {
+    if (bytes.every((byte, i) => content[i] === byte)) return type;
+  }
+  return isBinary(content) ? "binary data" : "text";
+}
+
+export interface Pointer {
+  oid: string; // sha256 of the content
+  size: number;
+}
+
+export function formatPointer(pointer: Pointer): string {
+  return `${POINTER_VERSION}\noid sha256:${pointer.oid}\nsize ${pointer.size}\n`;
+}
+
+export function parsePointer(content: Buffer | string): Pointer | null {
+  if (content.length < POINTER_SIZES.min || content.length > POINTER_SIZES.max) return null;
+  const match = content.toString().match(POINTER);
+  return match ? { oid: match[1]!, size: parseInt(match[2]!, 10) } : null;
+}
+
+// Laid out like git-lfs: .git/lfs/objects/ab/cd/abcd…
+function objectsDir(slug: string): string {
+  return join(getRepoPath(slug), ".git", "lfs", "objects");
+}
+
+function objectPath(slug: string, oid: string): string {
+  return join(objectsDir(slug), oid.slice(0, 2), oid.slice(2, 4), oid);
+}
+
+/** Keep `content` outside the repo's history and return the pointer to commit instead. */
+export function storeObject(slug: string, content: Buffer): Pointer {
+  const oid = createHash("sha256").update(content).digest("hex");
+  const path = objectPath(slug, oid);
+  if (!existsSync(path)) {
+    mkdirSync(join(path, ".."), { recursive: true });
+    writeFileSync(path, content);
+  }
+  return { oid, size: content.length };
+}
+
+export function readObject(slug: string, pointer: Pointer): Buffer | null {
+  const path = objectPath(slug, pointer.oid);
+  return existsSync(path) ? readFileSync(path) : null;
+}
+
+/** Delete stored objects that no commit points at any more, e.g. after pruning. */
+export async function pruneObjects(slug: string): Promise<number> {
+  const dir = objectsDir(slug);
+  if (!existsSync(dir)) return 0;
+  const repoPath = getRepoPath(slug);
+
+  const blobs = await runGit(repoPath, ["rev-list", "--all", "--objects"]);
+  const sizes = await runGit(
+    repoPath,
+    ["cat-file", "--batch-check=%(objectname) %(objecttype) %(objectsize)"],
+    blobs
+      .split("\n")
+      .map((line) => line.split(" ")[0])
+      .filter(Boolean)
+      .join("\n") + "\n",
+  );
+  const referenced = new Set<string>();
+  for (const line of sizes.split("\n")) {
+    const [hash, type, size] = line.split(" ");
+    const bytes = Number(size);
+    if (type !== "blob" || bytes < POINTER_SIZES.min || bytes > POINTER_SIZES.max) continue;
+    const pointer = parsePointer(await runGit(repoPath, ["cat-file", "blob", hash!]));
+    if (pointer) referenced.add(pointer.oid);
+  }
+
+  let removed = 0;
+  for (const outer of readdirSync(dir)) {
+    for (const inner of readdirSync(join(dir, outer))) {
+      for (const oid of readdirSync(join(dir, outer, inner))) {
+        if (referenced.has(oid)) continue;
+        rmSync(join(dir, outer, inner, oid));
+        removed++;
+      }
+    }
+  }
+  return removed;
+}
+
+/** How two versions of a file differ, byte for byte. */
+export interface ByteChanges {
+  sizeBefore: number | null; // null when there is no earlier version
+  sizeAfter: number;
+  changedBytes: number; // length of the new version's span between the common prefix and suffix
+  firstChange: number | null; // offset of the first differing byte, null when identical
+}
+
+export function compareBytes(before: Buffer | null, after: Buffer): ByteChanges {
+  if (!before) return { sizeBefore: null, sizeAfter: after.length, changedBytes: after.length, firstChange: 0 };
+  const limit = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < limit && before[prefix] === after[prefix]) prefix++;
+  if (prefix === before.length && prefix === after.length) {
+    return { sizeBefore: before.length, sizeAfter: after.length, changedBytes: 0, firstChange: null };
+  }
+  let suffix = 0;
+  while (suffix < limit - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+  return {
+    sizeBefore: before.length,
+    sizeAfter: after.length,
+    changedBytes: after.length - prefix - suffix,
+    firstChange: prefix,
+  };
+}
+
+/** Whether the preview should show a summary rather than the content itself. */
+export function needsSummary(content: Buffer): boolean {
+  return content.length > PREVIEW_MAX_BYTES || isBinary(content);
+}
+
+export interface FileSummary {
+  fileName: string;
+  hash: string; // snapshot
+  content: Buffer;
+  pointer: Pointer | null; // set when the snapshot stores a pointer
+  changes: ByteChanges;
+}
+
+export function formatSummary(summary: FileSummary): string {
+  const { content, changes } = summary;
+  const sha = summary.pointer?.oid ?? createHash("sha256").update(content).digest("hex");
+  const lines = [
+    summary.fileName,
+    "",
+    `Type      ${describeType(content)}${content.length > PREVIEW_MAX_BYTES ? ` (too large to preview, over ${formatBytes(PREVIEW_MAX_BYTES)})` : ""}`,
+    `Size      ${formatBytes(content.length)} (${content.length} bytes)`,
+    `SHA-256   ${sha}`,
+    `Snapshot  ${summary.hash.slice(0, 7)}${summary.pointer ? " (stored outside history as a pointer)" : ""}`,
+    "",
+  ];
+  if (changes.sizeBefore === null) {
+    lines.push("First version of the file.");
+  } else if (changes.firstChange === null) {
+    lines.push("No byte changes.");
+  } else {
+    const delta = changes.sizeAfter - changes.sizeBefore;
+    const sign = delta >= 0 ? "+" : "-";
+    lines.push(
+      `Size      ${formatBytes(changes.sizeBefore)} -> ${formatBytes(changes.sizeAfter)} (${sign}${formatBytes(Math.abs(delta))})`,
+      `Changed   ${formatBytes(changes.changedBytes)} starting at byte ${changes.firstChange}`,
+    );
+  }
+  return lines.join("\n");
+}
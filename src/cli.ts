@@ -1,10 +1,25 @@
 #!/usr/bin/env bun
-import { startApp } from "./app.ts";
+import { isCommand, runCommand } from "./commands.ts";
+import { ConfigError } from "./config.ts";
+import { settleHooks } from "./hooks.ts";
 
 const args = process.argv.slice(2);
-const initialFile = args[0];
 
-startApp(initialFile).catch((err) => {
-  console.error("Failed to start:", err);
-  process.exit(1);
-});
+if (isCommand(args[0])) {
+  // Let hooks started by the command finish before exiting.
+  runCommand(args).then(async (code) => {
+    await settleHooks();
+    process.exit(code);
+  });
+} else {
+  const initialFile = args[0];
+
+  // Loaded lazily so headless subcommands don't pull in the terminal renderer.
+  import("./app.ts")
+    .then(({ startApp }) => startApp(initialFile))
+    .catch((err) => {
+      // A bad config.json is the user's to fix; the message says where, so skip the stack.
+      console.error("Failed to start:", err instanceof ConfigError ? err.message : err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,383 @@
+import { parseArgs } from "util";
+import { existsSync, writeFileSync } from "fs";
+import {
+  loadConfig,
+  addWatchTarget,
+  removeWatchTarget,
+  findWatchedFile,
+  getFullFilePath,
+  type AppConfig,
+  type WatchedFile,
+} from "./config.ts";
+import {
+  getLog,
+  getDiff,
+  readStoredContent,
+  getFileSummary,
+  restore,
+  snapshot,
+  resolveRevision,
+  getSnapshotCount,
+  getLatestSnapshot,
+  listProjectFilesWithDeleted,
+  type SnapshotInfo,
+} from "./tracker.ts";
+import { runDaemon, notifyDaemon, requestDaemon, REWRITE_TIMEOUT_MS } from "./daemon.ts";
+import { pruneAll } from "./retention.ts";
+import { exportHistory, isExportFormat, EXPORT_FORMATS } from "./export.ts";
+import { importGitHistory } from "./import.ts";
+import { formatSummary } from "./blobs.ts";
+import { relativeTime, formatBytes } from "./utils.ts";
+import { isGlob } from "./glob.ts";
+import { followEvents } from "./events.ts";
+
+interface CommandOptions {
+  json: boolean;
+  root?: string;
+  dryRun: boolean;
+  format?: string;
+  from?: string;
+  to?: string;
+  output?: string;
+  all: boolean;
+}
+
+type CommandHandler = (positionals: string[], options: CommandOptions) => Promise<number>;
+
+const USAGE = [
+  "Usage: diffden [file]                 Launch the TUI (optionally watching <file>)",
+  "       diffden list                   List watched projects and files",
+  "       diffden log <file>             List snapshots of a watched file",
+  "       diffden diff <file> <rev>      Show the changes recorded in a snapshot",
+  "       diffden show <file> <rev>      Print a file's contents at a snapshot",
+  "       diffden restore <file> <rev>   Overwrite a file with a snapshot",
+  "       diffden export <file>          Write a file's history as patches, a tar archive or Markdown",
+  "       diffden import <file>          Copy a file's earlier history from the git repo it lives in",
+  "       diffden watch <target>         Start tracking a file, a directory or a glob like 'notes/**/*.md'",
+  "       diffden unwatch <target>       Stop tracking a file, directory or glob",
+  "       diffden prune                  Apply retention policies and compact internal repos",
+  "       diffden daemon                 Keep snapshotting in the background; the TUI attaches to it",
+  "       diffden events                 Print snapshots, restores and watcher errors as JSON lines as they happen",
+  "",
+  "Options:",
+  "  --json         Print machine-readable JSON instead of plain text",
+  "  --root <dir>   (watch, unwatch) Project root; files are tracked by their path relative to it",
+  "  --dry-run      (prune) Report what would be removed without rewriting history",
+  `  --format <f>   (export) One of ${EXPORT_FORMATS.join(", ")}; default patch`,
+  "  --from <rev>   (export) Oldest snapshot to include",
+  "  --to <rev>     (export) Newest snapshot to include",
+  "  -o, --output <path>  (export) Write to a file instead of stdout",
+  "  --all          (events) Print the whole event log before following it",
+].join("\n");
+
+class CommandError extends Error {}
+
+function print(text: string) {
+  process.stdout.write(text.endsWith("\n") ? text : `${text}\n`);
+}
+
+function printJson(value: unknown) {
+  print(JSON.stringify(value, null, 2));
+}
+
+function requireArgs(positionals: string[], names: string[]): string[] {
+  if (positionals.length < names.length) {
+    throw new CommandError(`Missing argument: <${names[positionals.length]}>`);
+  }
+  return positionals.slice(0, names.length);
+}
+
+function requireWatchedFile(config: AppConfig, filePath: string): WatchedFile {
+  const watched = findWatchedFile(config, filePath);
+  if (!watched) throw new CommandError(`Not a watched file: ${filePath}`);
+  return watched;
+}
+
+async function requireRevision(slug: string, rev: string): Promise<string> {
+  const hash = await resolveRevision(slug, rev);
+  if (!hash) throw new CommandError(`Unknown snapshot: ${rev}`);
+  return hash;
+}
+
+function snapshotJson(snap: SnapshotInfo) {
+  return {
+    hash: snap.hash,
+    date: snap.date.toISOString(),
+    message: snap.message,
+    title: snap.title,
+    ...snap.meta,
+    insertions: snap.insertions,
+    deletions: snap.deletions,
+    labels: snap.labels,
+    imported: snap.imported,
+  };
+}
+
+const handlers: Record<string, CommandHandler> = {
+  async list(_positionals, { json }) {
+    const config = loadConfig();
+    const projects = [];
+    for (const project of config.projects) {
+      const files = [];
+      for (const fileName of await listProjectFilesWithDeleted(project)) {
+        const latest = await getLatestSnapshot(project.slug, fileName);
+        const path = getFullFilePath(project, fileName);
+        files.push({
+          fileName,
+          path,
+          missing: !existsSync(path),
+          snapshotCount: await getSnapshotCount(project.slug, fileName),
+          lastChanged: latest?.date ?? null,
+        });
+      }
+      projects.push({ slug: project.slug, name: project.name, dir: project.dir, files });
+    }
+
+    if (json) {
+      printJson(projects);
+      return 0;
+    }
+    if (projects.length === 0) {
+      print("No watched files. Use `diffden watch <file>` to add one.");
+      return 0;
+    }
+    for (const project of projects) {
+      print(`${project.name}  ${project.dir}  (${project.slug})`);
+      for (const file of project.files) {
+        const time = file.lastChanged ? relativeTime(file.lastChanged) : "no snapshots";
+        print(`  ${file.fileName}  ${file.snapshotCount} snaps  ${time}${file.missing ? "  (missing)" : ""}`);
+      }
+    }
+    return 0;
+  },
+
+  async log(positionals, { json }) {
+    const [filePath] = requireArgs(positionals, ["file"]);
+    const { project, fileName } = requireWatchedFile(loadConfig(), filePath!);
+    const snaps = await getLog(project.slug, fileName);
+
+    if (json) {
+      printJson(snaps.map(snapshotJson));
+      return 0;
+    }
+    for (const snap of snaps) {
+      const stats = `+${snap.insertions} -${snap.deletions}`;
+      const labels = snap.labels.map((label) => `★ ${label.name}`).join(" ");
+      const imported = snap.imported ? "(imported)" : "";
+      const columns = [snap.hash.slice(0, 7), snap.date.toISOString(), relativeTime(snap.date), stats, imported, labels, snap.title];
+      print(columns.filter(Boolean).join("  "));
+    }
+    return 0;
+  },
+
+  async diff(positionals, { json }) {
+    const [filePath, rev] = requireArgs(positionals, ["file", "rev"]);
+    const { project, fileName } = requireWatchedFile(loadConfig(), filePath!);
+    const hash = await requireRevision(project.slug, rev!);
+    const summary = await getFileSummary(project.slug, hash, fileName);
+    // Binary and oversized files get their byte-level summary instead of a text diff.
+    const diff = summary ? formatSummary(summary) : await getDiff(project.slug, hash, fileName);
+
+    if (json) {
+      printJson({ fileName, hash, diff, summarized: summary !== null });
+      return 0;
+    }
+    print(diff);
+    return 0;
+  },
+
+  async show(positionals, { json }) {
+    const [filePath, rev] = requireArgs(positionals, ["file", "rev"]);
+    const { project, fileName } = requireWatchedFile(loadConfig(), filePath!);
+    const hash = await requireRevision(project.slug, rev!);
+    const stored = await readStoredContent(project.slug, hash, fileName);
+    if (!stored) {
+      throw new CommandError(`${fileName} does not exist at ${rev}`);
+    }
+
+    if (json) {
+      printJson({ fileName, hash, content: stored.content.toString() });
+      return 0;
+    }
+    process.stdout.write(stored.content);
+    return 0;
+  },
+
+  async restore(positionals, { json }) {
+    const [filePath, rev] = requireArgs(positionals, ["file", "rev"]);
+    const { project, fileName } = requireWatchedFile(loadConfig(), filePath!);
+    const hash = await requireRevision(project.slug, rev!);
+    const destPath = getFullFilePath(project, fileName);
+    const result = await restore(project.slug, hash, fileName, destPath, { checkpoint: true });
+    if (!result) throw new CommandError(`Restore failed: ${fileName} at ${rev}`);
+
+    if (json) {
+      printJson({ fileName, hash, path: destPath, restored: true, checkpoint: result.checkpoint });
+      return 0;
+    }
+    print(`Restored ${fileName} to ${hash.slice(0, 7)}`);
+    if (result.checkpoint) print(`Previous contents saved as ${result.checkpoint.slice(0, 7)}`);
+    return 0;
+  },
+
+  async export(positionals, { json, format = "patch", from, to, output }) {
+    const [filePath] = requireArgs(positionals, ["file"]);
+    if (!isExportFormat(format)) throw new CommandError(`Unknown format: ${format} (use ${EXPORT_FORMATS.join(", ")})`);
+    const { project, fileName } = requireWatchedFile(loadConfig(), filePath!);
+    if (!output && json) {
+      throw new CommandError("--json describes the file written by --output; without it the export goes to stdout");
+    }
+    if (!output && format === "tar" && process.stdout.isTTY) {
+      throw new CommandError("Refusing to write a tar archive to a terminal; use --output");
+    }
+
+    const result = await exportHistory(project.slug, fileName, format, { from, to });
+    if (!output) {
+      process.stdout.write(result.data);
+      return 0;
+    }
+
+    writeFileSync(output, result.data);
+    if (json) {
+      printJson({ fileName, format, path: output, snapshots: result.snapshots, bytes: result.data.length });
+      return 0;
+    }
+    print(`Exported ${result.snapshots} snapshots of ${fileName} to ${output}`);
+    return 0;
+  },
+
+  async import(positionals, { json }) {
+    const [filePath] = requireArgs(positionals, ["file"]);
+    const { project, fileName } = requireWatchedFile(loadConfig(), filePath!);
+    const viaDaemon = await requestDaemon({ type: "import", slug: project.slug, fileName }, REWRITE_TIMEOUT_MS);
+    const result = viaDaemon ? viaDaemon.result : await importGitHistory(project, fileName);
+
+    if (json) {
+      printJson(result);
+      return 0;
+    }
+    print(`Imported ${result.imported} commits of ${fileName}`);
+    return 0;
+  },
+
+  async watch(positionals, { json, root }) {
+    const [target] = requireArgs(positionals, ["target"]);
+    if (!isGlob(target!) && !existsSync(target!)) throw new CommandError(`No such file: ${target}`);
+    const { project, fileNames } = addWatchTarget(loadConfig(), target!, root);
+    const hashes: Record<string, string | null> = {};
+    for (const fileName of fileNames) {
+      hashes[fileName] = await snapshot(project.slug, getFullFilePath(project, fileName), fileName);
+    }
+    await notifyDaemon();
+
+    if (json) {
+      printJson({ slug: project.slug, dir: project.dir, files: hashes });
+      return 0;
+    }
+    for (const fileName of fileNames) print(`Watching: ${getFullFilePath(project, fileName)}`);
+    if (fileNames.length === 0) print(`Watching: ${target} (no matching files yet)`);
+    return 0;
+  },
+
+  async unwatch(positionals, { json, root }) {
+    const [target] = requireArgs(positionals, ["target"]);
+    const config = loadConfig();
+    const watched = isGlob(target!) ? null : findWatchedFile(config, target!);
+    removeWatchTarget(config, target!, root);
+    await notifyDaemon();
+
+    if (json) {
+      printJson({ slug: watched?.project.slug ?? null, target, unwatched: true });
+      return 0;
+    }
+    print(`Unwatched: ${target}`);
+    return 0;
+  },
+
+  async prune(_positionals, { json, dryRun }) {
+    const viaDaemon = await requestDaemon({ type: "prune", dryRun }, REWRITE_TIMEOUT_MS);
+    const results = viaDaemon ? viaDaemon.result : await pruneAll(loadConfig(), { dryRun });
+
+    if (json) {
+      printJson(results);
+      return 0;
+    }
+    if (results.length === 0) {
+      print("No retention policies configured.");
+      return 0;
+    }
+    for (const r of results) {
+      const reclaimed = dryRun ? "" : `, reclaimed ${formatBytes(Math.max(0, r.bytesBefore - r.bytesAfter))}`;
+      print(`${r.slug}: ${r.snapshotsBefore} -> ${r.snapshotsAfter} snapshots${reclaimed}`);
+    }
+    return 0;
+  },
+
+  async daemon(_positionals, { json }) {
+    await runDaemon((message) => {
+      if (json) print(JSON.stringify({ time: new Date().toISOString(), message }));
+      else print(`[${new Date().toLocaleTimeString()}] ${message}`);
+    });
+    return 0;
+  },
+
+  async events(_positionals, { all }) {
+    // Already one JSON object per line, so --json changes nothing.
+    const stop = followEvents(print, { fromStart: all });
+    await new Promise<void>((resolve) => {
+      const shutdown = () => {
+        process.off("SIGINT", shutdown);
+        process.off("SIGTERM", shutdown);
+        resolve();
+      };
+      process.on("SIGINT", shutdown);
+      process.on("SIGTERM", shutdown);
+    });
+    stop();
+    return 0;
+  },
+};
+
+const HELP_FLAGS = ["help", "--help", "-h"];
+
+export function isCommand(name: string | undefined): boolean {
+  return name !== undefined && (Object.hasOwn(handlers, name) || HELP_FLAGS.includes(name));
+}
+
+export async function runCommand(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+  if (!name || !Object.hasOwn(handlers, name)) {
+    print(USAGE);
+    return 0;
+  }
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: rest,
+      options: {
+        json: { type: "boolean", default: false },
+        root: { type: "string" },
+        "dry-run": { type: "boolean", default: false },
+        format: { type: "string" },
+        from: { type: "string" },
+        to: { type: "string" },
+        output: { type: "string", short: "o" },
+        all: { type: "boolean", default: false },
+      },
+      allowPositionals: true,
+    });
+  } catch (err) {
+    process.stderr.write(`diffden ${name}: ${(err as Error).message}\n\n${USAGE}\n`);
+    return 1;
+  }
+
+  try {
+    const { json = false, root, "dry-run": dryRun = false, format, from, to, output, all = false } = parsed.values;
+    return await handlers[name]!(parsed.positionals, { json, root, dryRun, format, from, to, output, all });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`diffden ${name}: ${message}\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { ConfigError, validateConfig } from "./config-schema.ts";
+
+const project = { slug: "notes-3f2a91c0", name: "notes", dir: "/home/me/notes", files: ["plan.md"] };
+
+function problem(value: unknown): string {
+  try {
+    validateConfig(value);
+  } catch (err) {
+    expect(err).toBeInstanceOf(ConfigError);
+    return (err as Error).message;
+  }
+  throw new Error("expected a ConfigError");
+}
+
+describe("validateConfig", () => {
+  test("accepts a complete config", () => {
+    const config = {
+      version: 1,
+      projects: [
+        {
+          ...project,
+          patterns: ["**/*.md"],
+          ignore: ["drafts/**"],
+          snapshot: { debounceMs: 2000, binaryFiles: "pointer" },
+          fileOptions: { "plan.md": { retention: { keepAllHours: 24, hourlyDays: 7 } } },
+          hooks: [{ command: "make lint", timeoutMs: 5000 }],
+        },
+      ],
+      diffView: "split",
+      wordDiff: true,
+      retention: { keepAllHours: 1, hourlyDays: 1, dailyDays: 30 },
+      autoPrune: false,
+    };
+    expect(() => validateConfig(config)).not.toThrow();
+  });
+
+  test("names the key at fault", () => {
+    expect(problem({ version: 1, projects: [{ ...project, files: ["a.md", 5] }] })).toBe(
+      "projects[0].files[1] must be a string, not 5",
+    );
+    expect(problem({ version: 1, projects: [{ ...project, snapshot: { binaryFiles: "keep" } }] })).toBe(
+      'projects[0].snapshot.binaryFiles must be one of "store", "pointer", "skip", not "keep"',
+    );
+    expect(problem({ version: 1, projects: [{ ...project, fileOptions: { "plan.md": { retention: 3 } } }] })).toBe(
+      'projects[0].fileOptions["plan.md"].retention must be an object, not 3',
+    );
+    expect(problem({ version: 1, projects: [], hooks: [{ command: "" }] })).toBe("hooks[0].command must not be empty");
+  });
+
+  test("reports a misspelt key rather than the missing one", () => {
+    expect(problem({ version: 1, projetcs: [] })).toBe("projetcs is not a known setting");
+    expect(problem({ version: 1 })).toBe("projects is missing");
+  });
+
+  test("rejects negative and non-numeric counts", () => {
+    expect(problem({ version: 1, projects: [], retention: { keepAllHours: -1, hourlyDays: 1 } })).toBe(
+      "retention.keepAllHours must be a number of zero or more, not -1",
+    );
+    expect(problem({ version: "1", projects: [] })).toBe('version must be a number of zero or more, not "1"');
+  });
+
+  test("rejects a config that isn't an object", () => {
+    expect(problem([])).toBe("config must be an object, not an array");
+    expect(problem(null)).toBe("config must be an object, not null");
+  });
+});
@@ -0,0 +1,128 @@
+import type { AppConfig } from "./config.ts";
+
+// Checks a parsed config.json against the shape of AppConfig, so a hand-edit
+// mistake is reported with the key at fault instead of surfacing later.
+
+export class ConfigError extends Error {}
+
+type Check = (value: unknown, path: string) => void;
+
+function fail(path: string, problem: string): never {
+  throw new ConfigError(`${path || "config"} ${problem}`);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return typeof value === "object" ? "an object" : JSON.stringify(value);
+}
+
+const string: Check = (value, path) => {
+  if (typeof value !== "string") fail(path, `must be a string, not ${describe(value)}`);
+};
+
+const nonEmptyString: Check = (value, path) => {
+  string(value, path);
+  if (value === "") fail(path, "must not be empty");
+};
+
+const boolean: Check = (value, path) => {
+  if (typeof value !== "boolean") fail(path, `must be true or false, not ${describe(value)}`);
+};
+
+const count: Check = (value, path) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    fail(path, `must be a number of zero or more, not ${describe(value)}`);
+  }
+};
+
+function oneOf(...choices: string[]): Check {
+  return (value, path) => {
+    if (typeof value !== "string" || !choices.includes(value)) {
+      fail(path, `must be one of ${choices.map((c) => `"${c}"`).join(", ")}, not ${describe(value)}`);
+    }
+  };
+}
+
+function arrayOf(item: Check): Check {
+  return (value, path) => {
+    if (!Array.isArray(value)) fail(path, `must be an array, not ${describe(value)}`);
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+function recordOf(item: Check): Check {
+  return (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      fail(path, `must be an object, not ${describe(value)}`);
+    }
+    for (const [key, entry] of Object.entries(value)) item(entry, `${path}[${JSON.stringify(key)}]`);
+  };
+}
+
+/** An object with exactly these keys; those ending in "?" may be left out. */
+function object(fields: Record<string, Check>): Check {
+  const known = new Map(Object.entries(fields).map(([key, check]) => [key.replace(/\?$/, ""), check]));
+  const required = Object.keys(fields).filter((key) => !key.endsWith("?"));
+  return (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      fail(path, `must be an object, not ${describe(value)}`);
+    }
+    const at = (key: string) => (path ? `${path}.${key}` : key);
+    // Unknown keys first: a misspelt key would otherwise be reported as the correct one missing.
+    for (const key of Object.keys(value)) {
+      if (!known.has(key)) fail(at(key), "is not a known setting");
+    }
+    for (const key of required) {
+      if (!(key in value)) fail(at(key), "is missing");
+    }
+    for (const [key, entry] of Object.entries(value)) known.get(key)!(entry, at(key));
+  };
+}
+
+const retention = object({
+  keepAllHours: count,
+  hourlyDays: count,
+  "dailyDays?": count,
+});
+
+const snapshotSettings = object({
+  "debounceMs?": count,
+  "minIntervalMs?": count,
+  "maxFileSize?": count,
+  "ignoreWhitespace?": boolean,
+  "pointerAbove?": count,
+  "binaryFiles?": oneOf("store", "pointer", "skip"),
+});
+
+const hooks = arrayOf(object({ command: nonEmptyString, "timeoutMs?": count }));
+
+const project = object({
+  slug: nonEmptyString,
+  name: string,
+  dir: nonEmptyString,
+  files: arrayOf(nonEmptyString),
+  "patterns?": arrayOf(nonEmptyString),
+  "ignore?": arrayOf(nonEmptyString),
+  "retention?": retention,
+  "snapshot?": snapshotSettings,
+  "fileOptions?": recordOf(object({ "retention?": retention, "snapshot?": snapshotSettings })),
+  "hooks?": hooks,
+});
+
+const appConfig = object({
+  version: count,
+  projects: arrayOf(project),
+  "editor?": string,
+  "diffView?": oneOf("unified", "split"),
+  "wordDiff?": boolean,
+  "retention?": retention,
+  "autoPrune?": boolean,
+  "hooks?": hooks,
+});
+
+/** Return `value` as an AppConfig, or throw a ConfigError naming the first bad key. */
+export function validateConfig(value: unknown): AppConfig {
+  appConfig(value, "");
+  return value as AppConfig;
+}
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { addWatchTarget, ConfigError, CONFIG_VERSION, getRepoPath, loadConfig, relativeToDir } from "./config.ts";
+import { CONFIG_PATH, REPOS_DIR, projectSlug } from "./utils.ts";
+
+function writeRawConfig(value: unknown) {
+  mkdirSync(REPOS_DIR, { recursive: true });
+  writeFileSync(CONFIG_PATH, typeof value === "string" ? value : JSON.stringify(value));
+}
+
+// A repo under an old slug, with one file so copies can be told apart from empty dirs.
+function makeRepo(slug: string, content: string) {
+  mkdirSync(getRepoPath(slug), { recursive: true });
+  writeFileSync(join(getRepoPath(slug), "notes.md"), content);
+}
+
+beforeEach(() => {
+  rmSync(REPOS_DIR, { recursive: true, force: true });
+  rmSync(CONFIG_PATH, { force: true });
+});
+
+describe("loadConfig migrations", () => {
+  test("moves a version 0 project to its path-derived slug", () => {
+    makeRepo("app", "history");
+    writeRawConfig({ projects: [{ slug: "app", dir: "/work/app", files: ["notes.md"] }] });
+
+    const config = loadConfig();
+
+    const slug = projectSlug("/work/app");
+    expect(config.version).toBe(CONFIG_VERSION);
+    expect(config.projects).toEqual([{ slug, name: "app", dir: "/work/app", files: ["notes.md"] }]);
+    expect(readFileSync(join(getRepoPath(slug), "notes.md"), "utf-8")).toBe("history");
+    expect(existsSync(getRepoPath("app"))).toBe(false);
+    expect(JSON.parse(readFileSync(`${CONFIG_PATH}.v0.bak`, "utf-8")).projects[0].slug).toBe("app");
+    expect(JSON.parse(readFileSync(CONFIG_PATH, "utf-8")).version).toBe(CONFIG_VERSION);
+  });
+
+  test("gives every project that shared a repo its own copy", () => {
+    makeRepo("app", "shared history");
+    writeRawConfig({
+      projects: [
+        { slug: "app", dir: "/work/a/app", files: ["notes.md"] },
+        { slug: "app", dir: "/work/b/app", files: ["notes.md"] },
+      ],
+    });
+
+    const config = loadConfig();
+
+    expect(config.projects.map((p) => p.slug)).toEqual([projectSlug("/work/a/app"), projectSlug("/work/b/app")]);
+    for (const project of config.projects) {
+      expect(readFileSync(join(getRepoPath(project.slug), "notes.md"), "utf-8")).toBe("shared history");
+    }
+    expect(existsSync(getRepoPath("app"))).toBe(false);
+  });
+
+  test("leaves a repo alone when the project already has its new slug", () => {
+    const slug = projectSlug("/work/app");
+    makeRepo(slug, "history");
+    writeRawConfig({ version: 0, projects: [{ slug, name: "app", dir: "/work/app", files: [] }] });
+
+    expect(loadConfig().projects[0]!.slug).toBe(slug);
+    expect(readFileSync(join(getRepoPath(slug), "notes.md"), "utf-8")).toBe("history");
+  });
+
+  test("refuses a config from a newer version", () => {
+    writeRawConfig({ version: CONFIG_VERSION + 1, projects: [] });
+    expect(() => loadConfig()).toThrow(ConfigError);
+    expect(() => loadConfig()).toThrow(/written by a newer DiffDen/);
+  });
+
+  test("reports invalid JSON and keys in the file's name", () => {
+    writeRawConfig("{ not json");
+    expect(() => loadConfig()).toThrow(/config\.json: is not valid JSON/);
+    writeRawConfig({ version: CONFIG_VERSION, projects: [{}] });
+    expect(() => loadConfig()).toThrow(/config\.json: projects\[0\]\.slug is missing/);
+  });
+});
+
+describe("relativeToDir", () => {
+  test("gives paths inside the directory in forward-slash form", () => {
+    expect(relativeToDir("/work/app", "/work/app/docs/TODO.md")).toBe("docs/TODO.md");
+    expect(relativeToDir("/work/app", "/work/app/..notes")).toBe("..notes");
+  });
+
+  test("is null for the directory itself and anything outside it", () => {
+    expect(relativeToDir("/work/app", "/work/app")).toBeNull();
+    expect(relativeToDir("/work/app", "/work")).toBeNull();
+    expect(relativeToDir("/work/app", "/work/other/notes.md")).toBeNull();
+  });
+});
+
+describe("addWatchTarget", () => {
+  test("puts a file in its own directory's project unless given a root", () => {
+    const config = loadConfig();
+    addWatchTarget(config, "/home/me/x.md");
+    const { project, fileNames } = addWatchTarget(config, "/home/me/code/notes.md");
+    expect(project.dir).toBe("/home/me/code");
+    expect(fileNames).toEqual(["notes.md"]);
+
+    const rooted = addWatchTarget(config, "/home/me/code/docs/TODO.md", "/home/me/code");
+    expect(rooted.project.slug).toBe(project.slug);
+    expect(rooted.fileNames).toEqual(["docs/TODO.md"]);
+    expect(config.projects.map((p) => [p.dir, p.files])).toEqual([
+      ["/home/me", ["x.md"]],
+      ["/home/me/code", ["notes.md", "docs/TODO.md"]],
+    ]);
+  });
+
+  test("puts a file in the project whose patterns already cover it", () => {
+    const config = loadConfig();
+    const { project } = addWatchTarget(config, "/home/me/code/docs/*.md", "/home/me/code");
+    const file = addWatchTarget(config, "/home/me/code/docs/TODO.md");
+    expect(file.project.slug).toBe(project.slug);
+    expect(file.fileNames).toEqual(["docs/TODO.md"]);
+    expect(addWatchTarget(config, "/home/me/code/docs/logo.png").project.dir).toBe("/home/me/code/docs");
+    expect(config.projects).toHaveLength(2);
+  });
+
+  test("refuses a root that doesn't contain the file", () => {
+    expect(() => addWatchTarget(loadConfig(), "/home/me/x.md", "/home/me/code")).toThrow(/is not inside project root/);
+  });
+});
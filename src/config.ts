@@ -1,16 +1,89 @@
-import { mkdirSync, readFileSync, writeFileSync, existsSync } from "fs";
-import { dirname, resolve, basename, join } from "path";
-import { CONFIG_PATH, DATA_DIR, REPOS_DIR, projectSlug, projectDirFromFile } from "./utils.ts";
+import { mkdirSync, readFileSync, writeFileSync, existsSync, statSync, renameSync, copyFileSync, cpSync } from "fs";
+import { resolve, basename, join, relative, isAbsolute } from "path";
+import { CONFIG_PATH, DATA_DIR, REPOS_DIR, projectSlug, projectName, projectDirFromFile } from "./utils.ts";
+import { expandGlobs, matchesAny, toPosix, isGlob, splitGlob } from "./glob.ts";
+import { ConfigError, validateConfig } from "./config-schema.ts";
+
+export { ConfigError };
+
+/** Schema version written to config.json; bump it alongside a new entry in MIGRATIONS. */
+export const CONFIG_VERSION = 1;
+
+/**
+ * Which snapshots survive pruning, by age: all of them for `keepAllHours`,
+ * then the last one of each hour until `hourlyDays`, then the last one of each
+ * day until `dailyDays` (forever when omitted). The newest snapshot of a file
+ * and labelled snapshots are always kept.
+ */
+export interface RetentionPolicy {
+  keepAllHours: number;
+  hourlyDays: number;
+  dailyDays?: number;
+}
+
+/** How a file is snapshotted. Unset keys fall back to the project, then to SNAPSHOT_DEFAULTS. */
+export interface SnapshotSettings {
+  debounceMs?: number; // wait this long after the last change before snapshotting
+  minIntervalMs?: number; // at most one snapshot per file in this window; later changes wait
+  maxFileSize?: number; // bytes; larger files are not snapshotted
+  ignoreWhitespace?: boolean; // skip changes that only touch whitespace
+  pointerAbove?: number; // bytes; larger files are committed as pointers to contents kept outside history
+  binaryFiles?: BinaryHandling;
+}
+
+export type BinaryHandling = "store" | "pointer" | "skip";
+
+export type SnapshotSettingKey = keyof SnapshotSettings;
+
+export type ResolvedSnapshotSettings = Required<Omit<SnapshotSettings, "maxFileSize" | "pointerAbove">> & {
+  maxFileSize: number | null;
+  pointerAbove: number | null;
+};
+
+export const SNAPSHOT_DEFAULTS: ResolvedSnapshotSettings = {
+  debounceMs: 500,
+  minIntervalMs: 0,
+  maxFileSize: null,
+  ignoreWhitespace: false,
+  pointerAbove: null,
+  binaryFiles: "store",
+};
+
+/** A shell command run in the background after each snapshot; see hooks.ts for what it receives. */
+export interface HookConfig {
+  command: string;
+  timeoutMs?: number; // killed after this long; defaults to HOOK_TIMEOUT_MS
+}
+
+export interface FileOptions {
+  retention?: RetentionPolicy;
+  snapshot?: SnapshotSettings;
+}
 
 export interface ProjectConfig {
-  slug: string;
+  slug: string; // unique ID, also the repo directory name under REPOS_DIR
+  name: string; // display name
   dir: string;
-  files: string[]; // basenames of watched files
+  files: string[]; // watched files, as forward-slash paths relative to dir
+  patterns?: string[]; // globs relative to dir, e.g. "notes/**/*.md"
+  ignore?: string[]; // globs excluded from patterns
+  retention?: RetentionPolicy;
+  snapshot?: SnapshotSettings;
+  fileOptions?: Record<string, FileOptions>; // keyed by file path relative to dir
+  hooks?: HookConfig[]; // run after the global hooks
 }
 
+export type DiffView = "unified" | "split";
+
 export interface AppConfig {
+  version: number; // CONFIG_VERSION of the code that last wrote the file
   projects: ProjectConfig[];
   editor?: string;
+  diffView?: DiffView; // split falls back to unified on narrow terminals
+  wordDiff?: boolean;
+  retention?: RetentionPolicy; // default for projects without their own
+  autoPrune?: boolean;
+  hooks?: HookConfig[]; // run for snapshots in every project
 }
 
 function ensureDirs() {
@@ -18,33 +91,150 @@ function ensureDirs() {
   mkdirSync(REPOS_DIR, { recursive: true });
 }
 
+// The copy of config.json that saveConfig replaced, kept to recover from a bad edit.
+const BACKUP_PATH = `${CONFIG_PATH}.bak`;
+
+/**
+ * Read, migrate and validate config.json, creating it when missing. Throws a
+ * ConfigError naming the bad key when the file can't be used.
+ */
 export function loadConfig(): AppConfig {
   ensureDirs();
   if (!existsSync(CONFIG_PATH)) {
-    const config: AppConfig = { projects: [] };
+    const config: AppConfig = { version: CONFIG_VERSION, projects: [] };
     saveConfig(config);
     return config;
   }
-  const raw = readFileSync(CONFIG_PATH, "utf-8");
-  return JSON.parse(raw) as AppConfig;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(CONFIG_PATH, "utf-8"));
+  } catch (err) {
+    throw configError(`is not valid JSON: ${(err as Error).message}`);
+  }
+  if (!isRecord(parsed)) throw configError("must contain a JSON object");
+  let raw = parsed;
+
+  const version = raw.version ?? 0;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw configError(`version must be a whole number, not ${JSON.stringify(version)}`);
+  }
+  if (version > CONFIG_VERSION) {
+    throw new ConfigError(
+      `${CONFIG_PATH} was written by a newer DiffDen (config version ${version}, this one reads up to ${CONFIG_VERSION})`,
+    );
+  }
+  if (version < CONFIG_VERSION) {
+    copyFileSync(CONFIG_PATH, `${CONFIG_PATH}.v${version}.bak`);
+    for (let from = version; from < CONFIG_VERSION; from++) MIGRATIONS[from]!(raw);
+    const { version: _old, ...rest } = raw;
+    raw = { version: CONFIG_VERSION, ...rest };
+  }
+
+  let config: AppConfig;
+  try {
+    config = validateConfig(raw);
+  } catch (err) {
+    if (err instanceof ConfigError) throw configError(err.message);
+    throw err;
+  }
+  if (version < CONFIG_VERSION) saveConfig(config);
+  return config;
+}
+
+function configError(problem: string): ConfigError {
+  const recovery = existsSync(BACKUP_PATH) ? `; the previous version is in ${BACKUP_PATH}` : "";
+  return new ConfigError(`${CONFIG_PATH}: ${problem}${recovery}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
+// MIGRATIONS[n] upgrades a raw version-n config to version n + 1 in place.
+// They run before validation, so they must tolerate malformed input.
+const MIGRATIONS: ((raw: Record<string, unknown>) => void)[] = [
+  // 0 -> 1: early versions keyed projects by directory basename alone, so two
+  // checkouts named "app" shared one repo. Move each project to its path-derived ID.
+  // A repo that several projects shared is copied to each of them, since its
+  // history can't be told apart; only the last one to move takes the original.
+  (raw) => {
+    if (!Array.isArray(raw.projects)) return;
+    const projects = (raw.projects as unknown[]).filter(isRecord);
+    const sharing = new Map<string, number>();
+    for (const project of projects) {
+      if (typeof project.dir === "string" && typeof project.slug === "string") {
+        sharing.set(project.slug, (sharing.get(project.slug) ?? 0) + 1);
+      }
+    }
+    for (const project of projects) {
+      if (typeof project.dir !== "string") continue;
+      if (!project.name) project.name = projectName(project.dir);
+      const slug = projectSlug(project.dir);
+      if (project.slug === slug) continue;
+
+      if (typeof project.slug === "string") {
+        const oldRepo = getRepoPath(project.slug);
+        const newRepo = getRepoPath(slug);
+        const othersLeft = sharing.get(project.slug)! - 1;
+        sharing.set(project.slug, othersLeft);
+        if (existsSync(oldRepo) && !existsSync(newRepo)) {
+          if (othersLeft > 0) cpSync(oldRepo, newRepo, { recursive: true });
+          else renameSync(oldRepo, newRepo);
+        }
+      }
+      project.slug = slug;
+    }
+  },
+];
+
+// Written to a temporary file and renamed over config.json, so a crash
+// mid-write leaves either the old file or the new one.
 export function saveConfig(config: AppConfig): void {
   ensureDirs();
-  writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
+  const tmpPath = `${CONFIG_PATH}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(config, null, 2));
+  if (existsSync(CONFIG_PATH)) copyFileSync(CONFIG_PATH, BACKUP_PATH);
+  renameSync(tmpPath, CONFIG_PATH);
 }
 
-export function addFileToConfig(config: AppConfig, filePath: string): AppConfig {
-  const absPath = resolve(filePath);
-  const dir = projectDirFromFile(absPath);
-  const slug = projectSlug(dir);
-  const fileName = basename(absPath);
+/** `absPath` relative to `dir` in forward-slash form, or null when it lies outside `dir`. */
+export function relativeToDir(dir: string, absPath: string): string | null {
+  const rel = toPosix(relative(dir, absPath));
+  // Not startsWith(".."): a file named "..notes" is still inside.
+  if (!rel || rel === ".." || rel.startsWith("../") || isAbsolute(rel)) return null;
+  return rel;
+}
 
-  let project = config.projects.find((p) => p.slug === slug);
-  if (!project) {
-    project = { slug, dir, files: [] };
-    config.projects.push(project);
+// Without an explicit root, a file belongs to the project whose patterns
+// already cover it, else to the project of its own directory. Joining any
+// other project further up would let one file watched in ~ pull in everything
+// watched under ~ later; `root` puts docs/TODO.md beside TODO.md.
+function placeFile(config: AppConfig, absPath: string, root?: string): WatchedFile {
+  if (!root) {
+    const covering = findCoveringProject(config, absPath);
+    if (covering) return covering;
+    return { project: findOrCreateProject(config, projectDirFromFile(absPath)), fileName: basename(absPath) };
+  }
+  const dir = resolve(root);
+  const fileName = relativeToDir(dir, absPath);
+  if (!fileName) throw new Error(`${absPath} is not inside project root ${dir}`);
+  return { project: findOrCreateProject(config, dir), fileName };
+}
+
+// The project, nearest the file first, whose patterns match it.
+function findCoveringProject(config: AppConfig, absPath: string): WatchedFile | null {
+  let best: WatchedFile | null = null;
+  for (const project of config.projects) {
+    const fileName = relativeToDir(project.dir, absPath);
+    if (!fileName || !matchesAny(fileName, project.patterns ?? []) || matchesAny(fileName, project.ignore ?? [])) continue;
+    if (!best || project.dir.length > best.project.dir.length) best = { project, fileName };
   }
+  return best;
+}
+
+export function addFileToConfig(config: AppConfig, filePath: string, root?: string): AppConfig {
+  const { project, fileName } = placeFile(config, resolve(filePath), root);
   if (!project.files.includes(fileName)) {
     project.files.push(fileName);
   }
@@ -54,14 +244,63 @@ export function addFileToConfig(config: AppConfig, filePath: string): AppConfig
 
 export function removeFileFromConfig(config: AppConfig, filePath: string): AppConfig {
   const absPath = resolve(filePath);
-  const dir = projectDirFromFile(absPath);
-  const slug = projectSlug(dir);
-  const fileName = basename(absPath);
+  const project = config.projects
+    .filter((p) => relativeToDir(p.dir, absPath) !== null)
+    .find((p) => p.files.includes(relativeToDir(p.dir, absPath)!));
 
-  const project = config.projects.find((p) => p.slug === slug);
   if (project) {
+    const fileName = relativeToDir(project.dir, absPath)!;
     project.files = project.files.filter((f) => f !== fileName);
-    if (project.files.length === 0) {
+    if (project.files.length === 0 && !project.patterns?.length) {
+      config.projects = config.projects.filter((p) => p.slug !== project.slug);
+    }
+  }
+  saveConfig(config);
+  return config;
+}
+
+/** Point an explicitly watched file, and its options, at the name it was renamed to. */
+export function renameFileInConfig(config: AppConfig, slug: string, oldName: string, newName: string): AppConfig {
+  const project = config.projects.find((p) => p.slug === slug);
+  if (project?.files.includes(oldName)) {
+    project.files = [...new Set(project.files.map((f) => (f === oldName ? newName : f)))];
+    const options = project.fileOptions?.[oldName];
+    if (options) {
+      delete project.fileOptions![oldName];
+      project.fileOptions![newName] = options;
+    }
+  }
+  saveConfig(config);
+  return config;
+}
+
+function findOrCreateProject(config: AppConfig, dir: string): ProjectConfig {
+  const slug = projectSlug(dir);
+  let project = config.projects.find((p) => p.slug === slug);
+  if (!project) {
+    project = { slug, name: projectName(dir), dir, files: [] };
+    config.projects.push(project);
+  }
+  return project;
+}
+
+export function addPatternToConfig(config: AppConfig, dirPath: string, pattern: string): AppConfig {
+  const project = findOrCreateProject(config, resolve(dirPath));
+  project.patterns ??= [];
+  if (!project.patterns.includes(pattern)) {
+    project.patterns.push(pattern);
+  }
+  saveConfig(config);
+  return config;
+}
+
+export function removePatternFromConfig(config: AppConfig, dirPath: string, pattern: string): AppConfig {
+  const slug = projectSlug(resolve(dirPath));
+  const project = config.projects.find((p) => p.slug === slug);
+  if (project?.patterns) {
+    project.patterns = project.patterns.filter((p) => p !== pattern);
+    if (project.patterns.length === 0) delete project.patterns;
+    if (project.files.length === 0 && !project.patterns) {
       config.projects = config.projects.filter((p) => p.slug !== slug);
     }
   }
@@ -69,6 +308,162 @@ export function removeFileFromConfig(config: AppConfig, filePath: string): AppCo
   return config;
 }
 
+export function addIgnoreToConfig(config: AppConfig, slug: string, pattern: string): AppConfig {
+  const project = config.projects.find((p) => p.slug === slug);
+  if (project) {
+    project.ignore ??= [];
+    if (!project.ignore.includes(pattern)) project.ignore.push(pattern);
+  }
+  saveConfig(config);
+  return config;
+}
+
+// Pattern matches are reused for a few seconds: the TUI lists every project's
+// files on each refresh, and walking a large tree that often is slow.
+const MATCHES_TTL_MS = 5_000;
+const matchCache = new Map<string, { files: string[]; at: number }>(); // keyed by dir, patterns and ignore
+
+/** Explicitly watched files plus everything currently matched by the project's patterns. */
+export function listProjectFiles(project: ProjectConfig): string[] {
+  const patterns = project.patterns ?? [];
+  const ignore = project.ignore ?? [];
+  const key = JSON.stringify([project.dir, patterns, ignore]);
+  let cached = matchCache.get(key);
+  if (!cached || Date.now() - cached.at > MATCHES_TTL_MS) {
+    cached = { files: expandGlobs(project.dir, patterns, ignore), at: Date.now() };
+    matchCache.set(key, cached);
+  }
+  return [...new Set([...project.files, ...cached.files])];
+}
+
+/** Drop cached pattern matches under `dir`, e.g. when a watcher sees a file come or go. */
+export function forgetProjectFiles(dir: string): void {
+  for (const key of matchCache.keys()) {
+    if ((JSON.parse(key) as string[])[0] === dir) matchCache.delete(key);
+  }
+}
+
+export interface WatchTarget {
+  project: ProjectConfig;
+  fileNames: string[]; // files covered by the target right now
+}
+
+// A glob or directory target becomes a pattern on a project rooted at `root`.
+// Without one, a glob under the current directory is rooted there, so
+// "notes/**/*.md" joins the same project as "*.md"; anything else is rooted
+// at the literal part of the target.
+function resolvePatternTarget(target: string, root?: string): { dir: string; pattern: string } | null {
+  let dir: string;
+  let pattern: string;
+  if (isGlob(target)) {
+    const { base, glob } = splitGlob(target);
+    dir = resolve(base);
+    pattern = glob;
+    if (!root && relativeToDir(process.cwd(), dir) !== null) root = process.cwd();
+  } else if (existsSync(target) && statSync(target).isDirectory()) {
+    dir = resolve(target);
+    pattern = "**/*";
+  } else {
+    return null;
+  }
+
+  if (!root) return { dir, pattern };
+  const rootDir = resolve(root);
+  if (rootDir === dir) return { dir, pattern };
+  const prefix = relativeToDir(rootDir, dir);
+  if (prefix === null) throw new Error(`${dir} is not inside project root ${rootDir}`);
+  return { dir: rootDir, pattern: `${prefix}/${pattern}` };
+}
+
+/**
+ * Add a file, a directory (all of its files) or a glob pattern to the config.
+ * With `root`, the target is stored relative to that project root.
+ */
+export function addWatchTarget(config: AppConfig, target: string, root?: string): WatchTarget {
+  const patternTarget = resolvePatternTarget(target, root);
+  if (!patternTarget) {
+    const { project, fileName } = placeFile(config, resolve(target), root);
+    if (!project.files.includes(fileName)) project.files.push(fileName);
+    saveConfig(config);
+    return { project, fileNames: [fileName] };
+  }
+
+  const { dir, pattern } = patternTarget;
+  addPatternToConfig(config, dir, pattern);
+  const project = config.projects.find((p) => p.slug === projectSlug(dir))!;
+  return { project, fileNames: expandGlobs(dir, [pattern], project.ignore ?? []) };
+}
+
+/** Undo `addWatchTarget` for the same file, directory or glob. */
+export function removeWatchTarget(config: AppConfig, target: string, root?: string): AppConfig {
+  const patternTarget = resolvePatternTarget(target, root);
+  if (patternTarget) {
+    return removePatternFromConfig(config, patternTarget.dir, patternTarget.pattern);
+  }
+  return removeFileFromConfig(config, target);
+}
+
+// Drop a file's options entry, and the project's map, once nothing is left in them.
+function pruneFileOptions(project: ProjectConfig, fileName: string) {
+  const options = project.fileOptions;
+  if (!options?.[fileName]) return;
+  if (options[fileName].snapshot && Object.keys(options[fileName].snapshot).length === 0) delete options[fileName].snapshot;
+  if (Object.keys(options[fileName]).length === 0) delete options[fileName];
+  if (Object.keys(options).length === 0) delete project.fileOptions;
+}
+
+/** Set or clear (`policy` null) the retention policy of a project, or of one of its files. */
+export function setRetentionInConfig(
+  config: AppConfig,
+  slug: string,
+  fileName: string | null,
+  policy: RetentionPolicy | null,
+): AppConfig {
+  const project = config.projects.find((p) => p.slug === slug);
+  if (project && fileName) {
+    const fileOptions = ((project.fileOptions ??= {})[fileName] ??= {});
+    if (policy) fileOptions.retention = policy;
+    else delete fileOptions.retention;
+    pruneFileOptions(project, fileName);
+  } else if (project) {
+    if (policy) project.retention = policy;
+    else delete project.retention;
+  }
+  saveConfig(config);
+  return config;
+}
+
+/** The most specific retention policy for a file: per file, then per project, then global. */
+export function getRetentionPolicy(config: AppConfig, project: ProjectConfig, fileName: string): RetentionPolicy | null {
+  return project.fileOptions?.[fileName]?.retention ?? project.retention ?? config.retention ?? null;
+}
+
+/** Set or clear (`value` null) one snapshot setting of a project, or of one of its files. */
+export function setSnapshotSettingInConfig<K extends SnapshotSettingKey>(
+  config: AppConfig,
+  slug: string,
+  fileName: string | null,
+  key: K,
+  value: SnapshotSettings[K] | null,
+): AppConfig {
+  const project = config.projects.find((p) => p.slug === slug);
+  if (project) {
+    const owner = fileName ? ((project.fileOptions ??= {})[fileName] ??= {}) : project;
+    const settings = (owner.snapshot ??= {});
+    if (value === null) delete settings[key];
+    else settings[key] = value;
+    if (Object.keys(settings).length === 0) delete owner.snapshot;
+    if (fileName) pruneFileOptions(project, fileName);
+  }
+  saveConfig(config);
+  return config;
+}
+
+/** A file's snapshot settings, each key taken from the file, then the project, then the defaults. */
+export function getSnapshotSettings(project: ProjectConfig, fileName: string): ResolvedSnapshotSettings {
+  return { ...SNAPSHOT_DEFAULTS, ...project.snapshot, ...project.fileOptions?.[fileName]?.snapshot };
+}
+
 export function getRepoPath(slug: string): string {
   return `${REPOS_DIR}/${slug}`;
 }
@@ -76,3 +471,23 @@ export function getRepoPath(slug: string): string {
 export function getFullFilePath(project: ProjectConfig, fileName: string): string {
   return join(project.dir, fileName);
 }
+
+export interface WatchedFile {
+  project: ProjectConfig;
+  fileName: string;
+}
+
+export function findWatchedFile(config: AppConfig, filePath: string): WatchedFile | null {
+  const absPath = resolve(filePath);
+  const containing = config.projects
+    .filter((p) => relativeToDir(p.dir, absPath) !== null)
+    .sort((a, b) => b.dir.length - a.dir.length);
+  for (const project of containing) {
+    const fileName = relativeToDir(project.dir, absPath)!;
+    if (project.files.includes(fileName)) return { project, fileName };
+    if (project.patterns && matchesAny(fileName, project.patterns) && !matchesAny(fileName, project.ignore ?? [])) {
+      return { project, fileName };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,354 @@
+import { createServer, createConnection, type Server, type Socket } from "net";
+import { existsSync, unlinkSync } from "fs";
+import { loadConfig, getFullFilePath, listProjectFiles, type ProjectConfig } from "./config.ts";
+import { snapshot } from "./tracker.ts";
+import { syncWatching, stopAll, onSnapshot, onWatchError, catchUp } from "./watcher.ts";
+import { pruneAll, pruneProject, startAutoPrune, type PruneResult } from "./retention.ts";
+import { importGitHistory, type ImportResult } from "./import.ts";
+import { onHookFailure } from "./hooks.ts";
+import { SOCKET_PATH, formatBytes } from "./utils.ts";
+
+// Protocol: newline-delimited JSON in both directions.
+//   client -> daemon  { id, type: "list" | "subscribe" | "snapshot" | "reload" | "prune" | "import", slug?, fileName?, dryRun? }
+//   daemon -> client  { id, ok: true, result } | { id, ok: false, error }
+//   daemon -> client  { event: "snapshot", slug, fileName, hash }   (after "subscribe")
+//   daemon -> client  { event: "hook-failed", slug, fileName, message }
+
+export type DaemonRequest =
+  | { type: "list" }
+  | { type: "subscribe" }
+  | { type: "reload" }
+  | { type: "snapshot"; slug: string; fileName: string }
+  // History rewrites run in the daemon, or a snapshot it commits meanwhile would be lost.
+  | { type: "prune"; slug?: string; dryRun: boolean }
+  | { type: "import"; slug: string; fileName: string };
+
+/** What each request resolves to. */
+export interface DaemonResults {
+  list: ProjectConfig[];
+  subscribe: true;
+  reload: true;
+  snapshot: string | null;
+  prune: PruneResult[];
+  import: ImportResult;
+}
+
+type DaemonResponse = { id: number; ok: true; result: unknown } | { id: number; ok: false; error: string };
+
+export interface SnapshotEvent {
+  event: "snapshot";
+  slug: string;
+  fileName: string;
+  hash: string;
+}
+
+export interface HookFailedEvent {
+  event: "hook-failed";
+  slug: string;
+  fileName: string;
+  message: string;
+}
+
+export type DaemonEvent = SnapshotEvent | HookFailedEvent;
+
+export interface DaemonConnection {
+  /** Rejects when the daemon answers with an error, goes away, or takes longer than `timeoutMs`. */
+  request<R extends DaemonRequest>(req: R, timeoutMs?: number): Promise<DaemonResults[R["type"]]>;
+  onEvent(cb: (event: DaemonEvent) => void): void;
+  /** Called once when the connection ends, whether closed here or by the daemon. */
+  onClose(cb: () => void): void;
+  close(): void;
+}
+
+const CONNECT_TIMEOUT_MS = 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+/** For requests that rewrite history, which takes a while on a big repo. */
+export const REWRITE_TIMEOUT_MS = 10 * 60_000;
+
+function readLines(socket: Socket, onLine: (line: string) => void) {
+  let buffer = "";
+  socket.setEncoding("utf-8");
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onLine(line);
+    }
+  });
+}
+
+function send(socket: Socket, message: unknown) {
+  if (!socket.destroyed) socket.write(JSON.stringify(message) + "\n");
+}
+
+async function handleRequest(
+  req: DaemonRequest,
+  socket: Socket,
+  subscribers: Set<Socket>,
+): Promise<DaemonResults[DaemonRequest["type"]]> {
+  switch (req.type) {
+    case "list":
+      return loadConfig().projects;
+    case "subscribe":
+      subscribers.add(socket);
+      return true;
+    case "reload": {
+      await syncWatching(loadConfig().projects);
+      return true;
+    }
+    case "snapshot": {
+      const project = loadConfig().projects.find((p) => p.slug === req.slug);
+      if (!project || !listProjectFiles(project).includes(req.fileName)) {
+        throw new Error(`Not a watched file: ${req.slug}/${req.fileName}`);
+      }
+      const hash = await snapshot(project.slug, getFullFilePath(project, req.fileName), req.fileName);
+      if (hash) {
+        broadcast(subscribers, { event: "snapshot", slug: project.slug, fileName: req.fileName, hash });
+      }
+      return hash;
+    }
+    case "prune": {
+      const config = loadConfig();
+      if (!req.slug) return pruneAll(config, { dryRun: req.dryRun });
+      const project = config.projects.find((p) => p.slug === req.slug);
+      if (!project) throw new Error(`Unknown project: ${req.slug}`);
+      return [await pruneProject(config, project, { dryRun: req.dryRun })];
+    }
+    case "import": {
+      const project = loadConfig().projects.find((p) => p.slug === req.slug);
+      if (!project || !listProjectFiles(project).includes(req.fileName)) {
+        throw new Error(`Not a watched file: ${req.slug}/${req.fileName}`);
+      }
+      const result = await importGitHistory(project, req.fileName);
+      if (result.snapshot) {
+        broadcast(subscribers, { event: "snapshot", slug: project.slug, fileName: req.fileName, hash: result.snapshot });
+      }
+      return result;
+    }
+    default:
+      throw new Error(`Unknown request: ${(req as { type: string }).type}`);
+  }
+}
+
+function broadcast(subscribers: Set<Socket>, event: DaemonEvent) {
+  for (const socket of subscribers) send(socket, event);
+}
+
+export function connectToDaemon(): Promise<DaemonConnection | null> {
+  return new Promise((resolve) => {
+    if (process.platform !== "win32" && !existsSync(SOCKET_PATH)) {
+      resolve(null);
+      return;
+    }
+
+    const socket = createConnection(SOCKET_PATH);
+    const pending = new Map<number, { resolve: (result: unknown) => void; reject: (err: Error) => void }>();
+    const listeners: ((event: DaemonEvent) => void)[] = [];
+    const closeListeners: (() => void)[] = [];
+    let closed = false;
+    let nextId = 1;
+
+    const timer = setTimeout(() => {
+      socket.destroy();
+      resolve(null);
+    }, CONNECT_TIMEOUT_MS);
+
+    socket.once("error", () => {
+      clearTimeout(timer);
+      resolve(null);
+    });
+
+    socket.once("connect", () => {
+      clearTimeout(timer);
+      // "close" follows "error", so pending requests are rejected there either way.
+      socket.on("error", () => {});
+      socket.on("close", () => {
+        closed = true;
+        for (const { reject } of pending.values()) reject(new Error("Daemon connection closed"));
+        pending.clear();
+        for (const cb of closeListeners) cb();
+      });
+
+      readLines(socket, (line) => {
+        let message: DaemonResponse | DaemonEvent;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          return;
+        }
+        if ("event" in message) {
+          for (const cb of listeners) cb(message);
+          return;
+        }
+        const entry = pending.get(message.id);
+        if (!entry) return;
+        pending.delete(message.id);
+        if (message.ok) entry.resolve(message.result);
+        else entry.reject(new Error(message.error));
+      });
+
+      resolve({
+        request<R extends DaemonRequest>(req: R, timeoutMs = REQUEST_TIMEOUT_MS) {
+          return new Promise<DaemonResults[R["type"]]>((res, rej) => {
+            if (closed || socket.destroyed) {
+              rej(new Error("Daemon connection closed"));
+              return;
+            }
+            const id = nextId++;
+            const timer = setTimeout(() => {
+              pending.delete(id);
+              rej(new Error(`Daemon did not answer "${req.type}" within ${timeoutMs / 1000}s`));
+            }, timeoutMs);
+            pending.set(id, {
+              resolve: (result) => {
+                clearTimeout(timer);
+                res(result as DaemonResults[R["type"]]);
+              },
+              reject: (err) => {
+                clearTimeout(timer);
+                rej(err);
+              },
+            });
+            send(socket, { ...req, id });
+          });
+        },
+        onEvent(cb) {
+          listeners.push(cb);
+        },
+        onClose(cb) {
+          if (closed) cb();
+          else closeListeners.push(cb);
+        },
+        close() {
+          socket.end();
+        },
+      });
+    });
+  });
+}
+
+/** Send one request to a running daemon. Null when no daemon is running. */
+export async function requestDaemon<R extends DaemonRequest>(
+  req: R,
+  timeoutMs?: number,
+): Promise<{ result: DaemonResults[R["type"]] } | null> {
+  const daemon = await connectToDaemon();
+  if (!daemon) return null;
+  try {
+    return { result: await daemon.request(req, timeoutMs) };
+  } finally {
+    daemon.close();
+  }
+}
+
+/** Ask a running daemon to pick up config changes. Does nothing when no daemon is running. */
+export async function notifyDaemon(): Promise<void> {
+  await requestDaemon({ type: "reload" });
+}
+
+function listen(server: Server): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(SOCKET_PATH, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+}
+
+/** Run watchers with no UI until SIGINT/SIGTERM, serving the local socket. */
+export async function runDaemon(log: (msg: string) => void): Promise<void> {
+  const existing = await connectToDaemon();
+  if (existing) {
+    existing.close();
+    throw new Error(`A daemon is already running (${SOCKET_PATH})`);
+  }
+  // A socket file without a listener is left over from a crashed daemon.
+  if (process.platform !== "win32" && existsSync(SOCKET_PATH)) unlinkSync(SOCKET_PATH);
+
+  const clients = new Set<Socket>();
+  const subscribers = new Set<Socket>();
+  const server = createServer((socket) => {
+    clients.add(socket);
+    socket.on("error", () => {});
+    socket.on("close", () => {
+      clients.delete(socket);
+      subscribers.delete(socket);
+    });
+    readLines(socket, async (line) => {
+      let req: DaemonRequest & { id?: number };
+      try {
+        req = JSON.parse(line);
+      } catch {
+        send(socket, { ok: false, error: "Invalid JSON" });
+        return;
+      }
+      try {
+        const result = await handleRequest(req, socket, subscribers);
+        send(socket, { id: req.id, ok: true, result });
+      } catch (err) {
+        send(socket, { id: req.id, ok: false, error: err instanceof Error ? err.message : String(err) });
+      }
+    });
+  });
+
+  onSnapshot((slug, fileName, hash) => {
+    log(`snapshot ${slug}/${fileName} ${hash.slice(0, 7)}`);
+    broadcast(subscribers, { event: "snapshot", slug, fileName, hash });
+  });
+  onWatchError((slug, fileName, message) => log(`watch error ${slug}/${fileName ?? "*"}: ${message}`));
+  onHookFailure((message, { slug, fileName }) => {
+    log(message);
+    broadcast(subscribers, { event: "hook-failed", slug, fileName, message });
+  });
+
+  // Record what changed while the daemon wasn't running (or was stopped).
+  const runCatchUp = async () => {
+    const results = await catchUp(loadConfig().projects);
+    for (const { slug, fileName, hash, deleted } of results) {
+      log(`catch-up ${slug}/${fileName} ${hash.slice(0, 7)}${deleted ? " (deleted)" : ""}`);
+      broadcast(subscribers, { event: "snapshot", slug, fileName, hash });
+    }
+    if (results.length > 0) log(`caught up on ${results.length} file${results.length !== 1 ? "s" : ""}`);
+  };
+  const onResume = () => {
+    runCatchUp().catch((err) => log(`catch-up failed: ${err.message}`));
+  };
+
+  const config = loadConfig();
+  await syncWatching(config.projects);
+  await runCatchUp();
+  await listen(server);
+  const stopAutoPrune = startAutoPrune(
+    (results) => {
+      for (const r of results) {
+        if (r.snapshotsAfter === r.snapshotsBefore) continue;
+        log(`pruned ${r.slug}: ${r.snapshotsBefore} -> ${r.snapshotsAfter} snapshots, reclaimed ${formatBytes(Math.max(0, r.bytesBefore - r.bytesAfter))}`);
+      }
+    },
+    (err) => log(`auto-prune failed: ${err.message}`),
+  );
+  const fileCount = config.projects.reduce((n, p) => n + listProjectFiles(p).length, 0);
+  log(`diffden daemon watching ${fileCount} file${fileCount !== 1 ? "s" : ""} on ${SOCKET_PATH}`);
+
+  await new Promise<void>((resolve) => {
+    const shutdown = () => {
+      process.off("SIGINT", shutdown);
+      process.off("SIGTERM", shutdown);
+      resolve();
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+    if (process.platform !== "win32") process.on("SIGCONT", onResume);
+  });
+
+  if (process.platform !== "win32") process.off("SIGCONT", onResume);
+  stopAutoPrune();
+  for (const socket of clients) socket.destroy();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  await stopAll();
+  if (process.platform !== "win32" && existsSync(SOCKET_PATH)) unlinkSync(SOCKET_PATH);
+  log("diffden daemon stopped");
+}
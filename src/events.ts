@@ -0,0 +1,81 @@
+import { appendFileSync, closeSync, mkdirSync, openSync, readSync, renameSync, statSync, unwatchFile, watchFile } from "fs";
+import { StringDecoder } from "string_decoder";
+import { DATA_DIR, EVENTS_PATH } from "./utils.ts";
+import type { HookEvent } from "./hooks.ts";
+
+// An append-only log of what every DiffDen process did, one JSON object per
+// line in EVENTS_PATH, for dashboards and scripts to follow with `diffden events`.
+
+export type SnapshotRecord = HookEvent & { event: "snapshot" };
+
+export interface RestoreRecord {
+  event: "restore";
+  slug: string;
+  fileName: string;
+  path: string; // the file written
+  hash: string | null; // the snapshot restored, null when hunks were reverted
+  hunks?: number[]; // reverted hunk indexes
+  checkpoint: string | null; // snapshot of the contents it replaced
+}
+
+export interface WatchErrorRecord {
+  event: "watch-error";
+  slug: string;
+  fileName: string | null; // null for a project's pattern watcher
+  message: string;
+}
+
+export type EventRecord = SnapshotRecord | RestoreRecord | WatchErrorRecord;
+
+const FOLLOW_INTERVAL_MS = 250;
+// Past this size the log is moved to events.log.1, replacing the one before.
+const EVENTS_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Append an event to the log. Never throws: losing a log line mustn't fail a snapshot. */
+export function recordEvent(record: EventRecord): void {
+  try {
+    mkdirSync(DATA_DIR, { recursive: true });
+    if (sizeOfLog() > EVENTS_MAX_BYTES) renameSync(EVENTS_PATH, `${EVENTS_PATH}.1`);
+    appendFileSync(EVENTS_PATH, JSON.stringify({ time: new Date().toISOString(), ...record }) + "\n");
+  } catch {
+    // read-only or full disk
+  }
+}
+
+/**
+ * Call `onLine` with each line appended to the log from now on, or from the
+ * start with `fromStart`. Returns a function that stops following.
+ */
+export function followEvents(onLine: (line: string) => void, options: { fromStart?: boolean } = {}): () => void {
+  const decoder = new StringDecoder("utf-8");
+  let offset = options.fromStart ? 0 : sizeOfLog();
+  let partial = "";
+
+  const readNew = () => {
+    const size = sizeOfLog();
+    if (size < offset) offset = 0; // rotated or truncated; start over
+    if (size === offset) return;
+    const chunk = Buffer.alloc(size - offset);
+    const fd = openSync(EVENTS_PATH, "r");
+    try {
+      offset += readSync(fd, chunk, 0, chunk.length, offset);
+    } finally {
+      closeSync(fd);
+    }
+    const lines = (partial + decoder.write(chunk)).split("\n");
+    partial = lines.pop()!;
+    for (const line of lines) if (line.trim()) onLine(line);
+  };
+
+  readNew();
+  watchFile(EVENTS_PATH, { interval: FOLLOW_INTERVAL_MS }, readNew);
+  return () => unwatchFile(EVENTS_PATH, readNew);
+}
+
+function sizeOfLog(): number {
+  try {
+    return statSync(EVENTS_PATH).size;
+  } catch {
+    return 0;
+  }
+}
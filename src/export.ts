@@ -0,0 +1,158 @@
+import { basename, extname } from "path";
+import { getLog, getDiff, readStoredContent, resolveRevision, type SnapshotInfo } from "./tracker.ts";
+
+// Writes a file's snapshot history out of the internal repo in shareable forms.
+
+export type ExportFormat = "patch" | "tar" | "md";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["patch", "tar", "md"];
+
+export interface ExportRange {
+  from?: string; // oldest snapshot to include (any revision or label); defaults to the first
+  to?: string; // newest snapshot to include; defaults to the latest
+}
+
+export interface ExportResult {
+  data: Buffer;
+  snapshots: number;
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/** Default output name, e.g. "notes-history.md" for notes.txt. */
+export function exportFileName(fileName: string, format: ExportFormat): string {
+  const base = basename(fileName, extname(fileName));
+  return `${base}-history.${format}`;
+}
+
+/** A file's snapshots from `range.from` to `range.to` inclusive, oldest first. */
+export async function getExportSnapshots(slug: string, fileName: string, range: ExportRange = {}): Promise<SnapshotInfo[]> {
+  const log = await getLog(slug, fileName); // newest first
+  const indexOf = async (rev: string) => {
+    const hash = await resolveRevision(slug, rev);
+    const index = log.findIndex((snap) => snap.hash === hash);
+    if (index === -1) throw new Error(`Not a snapshot of ${fileName}: ${rev}`);
+    return index;
+  };
+
+  const newest = range.to ? await indexOf(range.to) : 0;
+  const oldest = range.from ? await indexOf(range.from) : log.length - 1;
+  if (newest > oldest) throw new Error(`${range.from} is newer than ${range.to}`);
+  return log.slice(newest, oldest + 1).reverse();
+}
+
+export async function exportHistory(
+  slug: string,
+  fileName: string,
+  format: ExportFormat,
+  range: ExportRange = {},
+): Promise<ExportResult> {
+  const snaps = await getExportSnapshots(slug, fileName, range);
+  if (snaps.length === 0) throw new Error(`No snapshots of ${fileName} to export`);
+
+  let data: Buffer;
+  if (format === "patch") data = Buffer.from(await formatPatchSeries(slug, fileName, snaps));
+  else if (format === "md") data = Buffer.from(await formatChangelog(slug, fileName, snaps));
+  else data = await buildArchive(slug, fileName, snaps);
+  return { data, snapshots: snaps.length };
+}
+
+function withNewline(text: string): string {
+  return text.endsWith("\n") ? text : `${text}\n`;
+}
+
+function labelLines(snap: SnapshotInfo): string[] {
+  return snap.labels.map((label) => (label.note ? `${label.name}: ${label.note}` : label.name));
+}
+
+// Same mbox layout as `git format-patch --stdout`, so `git am` can replay it.
+async function formatPatchSeries(slug: string, fileName: string, snaps: SnapshotInfo[]): Promise<string> {
+  let out = "";
+  for (const [index, snap] of snaps.entries()) {
+    const diff = await getDiff(slug, snap.hash, fileName);
+    const labels = labelLines(snap);
+    out += `From ${snap.hash} Mon Sep 17 00:00:00 2001\n`;
+    out += "From: diffden <diffden@local>\n";
+    out += `Date: ${snap.date.toUTCString()}\n`;
+    out += `Subject: [PATCH ${index + 1}/${snaps.length}] ${snap.message}\n\n`;
+    if (labels.length > 0) out += labels.map((line) => `Label: ${line}\n`).join("") + "\n";
+    out += `---\n${withNewline(diff)}-- \ndiffden\n\n`;
+  }
+  return out;
+}
+
+// A code fence longer than any backtick run in `text`, so diffs of Markdown files stay intact.
+function fenceFor(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(longest + 1);
+}
+
+async function formatChangelog(slug: string, fileName: string, snaps: SnapshotInfo[]): Promise<string> {
+  const first = snaps[0]!.date.toISOString();
+  const last = snaps[snaps.length - 1]!.date.toISOString();
+  const lines = [`# History of ${fileName}`, "", `${snaps.length} snapshots from ${first} to ${last}.`, ""];
+
+  for (const snap of snaps) {
+    const diff = withNewline(await getDiff(slug, snap.hash, fileName));
+    const fence = fenceFor(diff);
+    const names = snap.labels.map((label) => ` ★ ${label.name}`).join("");
+    lines.push(`## ${snap.date.toISOString()} · ${snap.hash.slice(0, 7)}${names}`, "", snap.title, "");
+    for (const label of snap.labels) {
+      if (label.note) lines.push(`> ${label.name}: ${label.note}`, "");
+    }
+    lines.push(`${fence}diff`, diff.replace(/\n$/, ""), fence, "");
+  }
+  return lines.join("\n");
+}
+
+// --- tar (ustar) archive, one entry per version ---
+
+const BLOCK = 512;
+
+function writeField(header: Buffer, offset: number, length: number, value: string) {
+  header.write(value.slice(0, length), offset, length, "utf-8");
+}
+
+function writeOctal(header: Buffer, offset: number, length: number, value: number) {
+  writeField(header, offset, length, `${value.toString(8).padStart(length - 1, "0")}\0`);
+}
+
+function tarHeader(prefix: string, name: string, size: number, mtime: Date): Buffer {
+  const header = Buffer.alloc(BLOCK);
+  writeField(header, 0, 100, name);
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, Math.floor(mtime.getTime() / 1000));
+  header.fill(" ", 148, 156); // checksum is computed with its own field blank
+  writeField(header, 156, 1, "0");
+  writeField(header, 257, 6, "ustar\0");
+  writeField(header, 263, 2, "00");
+  writeField(header, 265, 32, "diffden");
+  writeField(header, 297, 32, "diffden");
+  writeField(header, 345, 155, prefix);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeField(header, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+  return header;
+}
+
+// Entries are named "<stamp>-<hash><ext>" under "<file>-history/" so they sort by time.
+async function buildArchive(slug: string, fileName: string, snaps: SnapshotInfo[]): Promise<Buffer> {
+  const ext = extname(fileName);
+  const dir = `${basename(fileName, ext)}-history`;
+  const parts: Buffer[] = [];
+
+  for (const snap of snaps) {
+    const content = (await readStoredContent(slug, snap.hash, fileName))?.content ?? Buffer.alloc(0);
+    const stamp = snap.date.toISOString().replace(/\.\d+Z$/, "Z").replace(/:/g, "-");
+    parts.push(tarHeader(dir, `${stamp}-${snap.hash.slice(0, 7)}${ext}`, content.length, snap.date));
+    parts.push(content, Buffer.alloc((BLOCK - (content.length % BLOCK)) % BLOCK));
+  }
+  parts.push(Buffer.alloc(BLOCK * 2)); // end-of-archive marker
+  return Buffer.concat(parts);
+}
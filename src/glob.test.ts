@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { createIgnoreFilter } from "./glob.ts";
+
+const DIR = { isFile: () => false, isDirectory: () => true };
+const FILE = { isFile: () => true, isDirectory: () => false };
+
+describe("createIgnoreFilter", () => {
+  test("only descends into directories leading to or inside a pattern's base", () => {
+    const ignored = createIgnoreFilter("/home/me", ["notes/daily/*.md"], []);
+    expect(ignored("/home/me/notes", DIR)).toBe(false);
+    expect(ignored("/home/me/notes/daily", DIR)).toBe(false);
+    expect(ignored("/home/me/notes/daily/old", DIR)).toBe(false);
+    expect(ignored("/home/me/notes/archive", DIR)).toBe(true);
+    expect(ignored("/home/me/src", DIR)).toBe(true);
+    expect(ignored("/home/me/notesy", DIR)).toBe(true);
+  });
+
+  test("descends everywhere for patterns without a literal base", () => {
+    const ignored = createIgnoreFilter("/home/me", ["*.md", "{a,b}/*.txt"], ["build"]);
+    expect(ignored("/home/me/src/deep", DIR)).toBe(false);
+    expect(ignored("/home/me/build", DIR)).toBe(true);
+    expect(ignored("/home/me/node_modules", DIR)).toBe(true);
+  });
+
+  test("lets through only matching files", () => {
+    const ignored = createIgnoreFilter("/home/me", ["notes/*.md"], ["notes/secret.md"]);
+    expect(ignored("/home/me/notes/todo.md", FILE)).toBe(false);
+    expect(ignored("/home/me/notes/todo.txt", FILE)).toBe(true);
+    expect(ignored("/home/me/notes/secret.md", FILE)).toBe(true);
+  });
+});
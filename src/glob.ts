@@ -0,0 +1,140 @@
+import { readdirSync } from "fs";
+import { join, relative, sep } from "path";
+
+// Directories that are never worth descending into when expanding patterns.
+const ALWAYS_IGNORED = [".git", "node_modules"];
+
+const GLOB_CHARS = /[*?[{]/;
+
+export function isGlob(pattern: string): boolean {
+  return GLOB_CHARS.test(pattern);
+}
+
+/** Normalise an OS path to the forward-slash form patterns are written in. */
+export function toPosix(path: string): string {
+  return sep === "/" ? path : path.split(sep).join("/");
+}
+
+/**
+ * Compile a glob to a RegExp. Supports `**`, `*`, `?`, `[...]` and `{a,b}`.
+ * Patterns without a slash match a basename at any depth, like .gitignore.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let inGroup = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]!;
+    if (ch === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories; a trailing "**" matches everything.
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else if (ch === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/^!/, "^");
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (ch === "{") {
+      inGroup++;
+      source += "(?:";
+    } else if (ch === "}" && inGroup > 0) {
+      inGroup--;
+      source += ")";
+    } else if (ch === "," && inGroup > 0) {
+      source += "|";
+    } else {
+      source += ch.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  const anchored = pattern.includes("/") ? `^${source}$` : `^(?:.*/)?${source}$`;
+  return new RegExp(anchored);
+}
+
+const compiled = new Map<string, RegExp>();
+
+export function matchesAny(relPath: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    let regex = compiled.get(pattern);
+    if (!regex) {
+      regex = globToRegExp(pattern);
+      compiled.set(pattern, regex);
+    }
+    return regex.test(relPath);
+  });
+}
+
+// Whether a directory can hold a match: it must lead to or sit inside some
+// pattern's literal base, so "notes/*.md" never descends into "src".
+function mayContainMatch(relDir: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const { base } = splitGlob(pattern);
+    return base === "." || base === relDir || base.startsWith(`${relDir}/`) || relDir.startsWith(`${base}/`);
+  });
+}
+
+function isIgnoredDir(relPath: string, patterns: string[], ignore: string[]): boolean {
+  const name = relPath.split("/").pop() ?? relPath;
+  return ALWAYS_IGNORED.includes(name) || !mayContainMatch(relPath, patterns) || matchesAny(relPath, ignore);
+}
+
+/** Build a chokidar `ignored` predicate that only lets matching files (and the directories leading to them) through. */
+export function createIgnoreFilter(dir: string, patterns: string[], ignore: string[]) {
+  return (path: string, stats?: { isFile(): boolean; isDirectory(): boolean }): boolean => {
+    const relPath = toPosix(relative(dir, path));
+    if (!relPath) return false;
+    if (stats?.isDirectory()) return isIgnoredDir(relPath, patterns, ignore);
+    if (stats?.isFile()) return !matchesAny(relPath, patterns) || matchesAny(relPath, ignore);
+    return relPath.split("/").some((part) => ALWAYS_IGNORED.includes(part));
+  };
+}
+
+/** List files under `dir` matching any of `patterns`, as sorted forward-slash paths relative to `dir`. */
+export function expandGlobs(dir: string, patterns: string[], ignore: string[] = []): string[] {
+  if (patterns.length === 0) return [];
+  const matches: string[] = [];
+
+  const walk = (current: string) => {
+    let entries;
+    try {
+      entries = readdirSync(current, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const abs = join(current, entry.name);
+      const relPath = toPosix(relative(dir, abs));
+      if (entry.isDirectory()) {
+        if (!isIgnoredDir(relPath, patterns, ignore)) walk(abs);
+      } else if (entry.isFile() && matchesAny(relPath, patterns) && !matchesAny(relPath, ignore)) {
+        matches.push(relPath);
+      }
+    }
+  };
+
+  walk(dir);
+  return matches.sort();
+}
+
+/** Split a pattern like "notes/*.md" into its literal base directory and the glob remainder. */
+export function splitGlob(pattern: string): { base: string; glob: string } {
+  const parts = toPosix(pattern).split("/");
+  const firstGlob = parts.findIndex(isGlob);
+  if (firstGlob === -1) return { base: pattern, glob: "" };
+  const base = parts.slice(0, firstGlob).join("/");
+  return { base: base || (firstGlob === 0 ? "." : "/"), glob: parts.slice(firstGlob).join("/") };
+}
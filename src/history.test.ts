@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { readHistory, rewriteHistory, rawDateSeconds } from "./history.ts";
+import { addLabel, getContent, getLabels, getLog, snapshot } from "./tracker.ts";
+
+const DAY_SECONDS = 24 * 60 * 60;
+const START = Date.UTC(2026, 0, 1) / 1000;
+
+// Snapshot each version of notes.md a day apart, returning the source file's path.
+async function snapshotVersions(slug: string, versions: string[]): Promise<string> {
+  const path = join(mkdtempSync(join(homedir(), "history-")), "notes.md");
+  for (const [day, content] of versions.entries()) {
+    writeFileSync(path, content);
+    await snapshot(slug, path, "notes.md", { date: new Date((START + day * DAY_SECONDS) * 1000) });
+  }
+  return path;
+}
+
+describe("readHistory", () => {
+  test("lists commits oldest first with the paths they changed", async () => {
+    await snapshotVersions("history-read", ["one\n", "two\n", "three\n"]);
+    const commits = await readHistory("history-read");
+
+    expect(commits.map((commit) => rawDateSeconds(commit.authorDate))).toEqual([START, START + DAY_SECONDS, START + 2 * DAY_SECONDS]);
+    expect(commits.map((commit) => commit.message.split("\n")[0])).toEqual(["[notes.md] one", "[notes.md] two", "[notes.md] three"]);
+    for (const commit of commits) {
+      expect(commit.changes).toEqual([{ path: "notes.md", mode: "100644", blob: expect.stringMatching(/^[0-9a-f]{40}$/) }]);
+    }
+  });
+
+  test("is empty for a repo without snapshots", async () => {
+    expect(await readHistory("history-empty")).toEqual([]);
+  });
+});
+
+describe("rewriteHistory", () => {
+  test("drops commits while keeping contents, dates and messages of the rest", async () => {
+    await snapshotVersions("history-drop", ["one\n", "two\n", "three\n"]);
+    const [first, , last] = await readHistory("history-drop");
+
+    const mapping = await rewriteHistory("history-drop", [first!, last!]);
+    const rewritten = await readHistory("history-drop");
+
+    expect(rewritten).toHaveLength(2);
+    expect(rewritten.map((commit) => [commit.message, commit.authorDate])).toEqual([
+      [first!.message, first!.authorDate],
+      [last!.message, last!.authorDate],
+    ]);
+    const log = await getLog("history-drop", "notes.md");
+    expect(await getContent("history-drop", log[0]!.hash, "notes.md")).toBe("three\n");
+    expect(await getContent("history-drop", log[1]!.hash, "notes.md")).toBe("one\n");
+    expect([...mapping.keys()]).toEqual([first!.hash, last!.hash]);
+  });
+
+  test("moves labels onto the rewritten commits", async () => {
+    await snapshotVersions("history-labels", ["one\n", "two\n", "three\n"]);
+    const [first, second, third] = await readHistory("history-labels");
+    await addLabel("history-labels", second!.hash, "draft", "first draft");
+
+    const mapping = await rewriteHistory("history-labels", [second!, third!]);
+    const labels = await getLabels("history-labels");
+
+    expect(labels.get(mapping.get(second!.hash)!)).toEqual([{ name: "draft", note: "first draft" }]);
+    expect(mapping.has(first!.hash)).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+import { spawn } from "child_process";
+import { readdirSync, readFileSync, rmSync, statSync } from "fs";
+import { join } from "path";
+import { getRepoPath } from "./config.ts";
+import { getLabels } from "./tracker.ts";
+
+// Low-level access to an internal repo's commit graph, used by operations
+// that rebuild history (pruning, importing) rather than append to it.
+
+export interface FileChange {
+  path: string;
+  mode: string; // e.g. "100644"
+  blob: string | null; // null when the commit deletes the path
+}
+
+export interface HistoryCommit {
+  hash: string;
+  authorName: string;
+  authorEmail: string;
+  authorDate: string; // git raw format: "<unix seconds> <tz offset>"
+  committerName: string;
+  committerEmail: string;
+  committerDate: string;
+  message: string;
+  changes: FileChange[];
+}
+
+const NULL_MODE = "000000";
+const FIELD = "\x1f";
+const RECORD = "\x1e";
+
+/** Run git in a repo, optionally feeding stdin, and resolve with stdout. */
+export function runGit(
+  repoPath: string,
+  args: string[],
+  input?: string | Buffer,
+  env?: Record<string, string>,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", args, {
+      cwd: repoPath,
+      env: env ? { ...process.env, ...env } : process.env,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.setEncoding("utf-8");
+    child.stderr.setEncoding("utf-8");
+    child.stdout.on("data", (chunk: string) => (stdout += chunk));
+    child.stderr.on("data", (chunk: string) => (stderr += chunk));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) resolve(stdout);
+      else reject(new Error(stderr.trim() || `git ${args[0]} exited with ${code}`));
+    });
+    child.stdin.end(input ?? "");
+  });
+}
+
+/** A blob's bytes, read without decoding so binary content survives the copy. */
+export function readBlob(repoPath: string, rev: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", ["cat-file", "blob", rev], { cwd: repoPath, stdio: ["ignore", "pipe", "pipe"] });
+    const chunks: Buffer[] = [];
+    let stderr = "";
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.setEncoding("utf-8");
+    child.stderr.on("data", (chunk: string) => (stderr += chunk));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) resolve(Buffer.concat(chunks));
+      else reject(new Error(stderr.trim() || `git cat-file exited with ${code}`));
+    });
+  });
+}
+
+/** Every commit on the current branch, oldest first, with the paths each one changed. */
+export async function readHistory(slug: string): Promise<HistoryCommit[]> {
+  const repoPath = getRepoPath(slug);
+  let out: string;
+  try {
+    out = await runGit(repoPath, [
+      "-c",
+      "core.quotePath=false",
+      "log",
+      "--reverse",
+      "--raw",
+      "--no-renames",
+      "--no-abbrev",
+      "--date=raw",
+      `--format=${RECORD}%H${FIELD}%an${FIELD}%ae${FIELD}%ad${FIELD}%cn${FIELD}%ce${FIELD}%cd${FIELD}%B${FIELD}`,
+    ]);
+  } catch {
+    return []; // no commits yet
+  }
+
+  const commits: HistoryCommit[] = [];
+  for (const record of out.split(RECORD)) {
+    if (!record.trim()) continue;
+    const fields = record.split(FIELD);
+    const raw = fields[8] ?? "";
+    const changes: FileChange[] = [];
+    for (const line of raw.split("\n")) {
+      // :100644 100644 <old> <new> M\t<path>
+      const match = line.match(/^:\d+ (\d+) [0-9a-f]+ ([0-9a-f]+) \w+\t(.+)$/);
+      if (!match) continue;
+      const [, mode, blob, path] = match;
+      changes.push({ path: path!, mode: mode!, blob: mode === NULL_MODE ? null : blob! });
+    }
+    commits.push({
+      hash: fields[0]!,
+      authorName: fields[1]!,
+      authorEmail: fields[2]!,
+      authorDate: fields[3]!,
+      committerName: fields[4]!,
+      committerEmail: fields[5]!,
+      committerDate: fields[6]!,
+      message: fields[7]!.replace(/\n+$/, ""),
+      changes,
+    });
+  }
+  return commits;
+}
+
+/** Seconds since the epoch from a raw git date. */
+export function rawDateSeconds(rawDate: string): number {
+  return parseInt(rawDate.split(" ")[0]!, 10);
+}
+
+function dataBlock(text: string): string {
+  return `data ${Buffer.byteLength(text)}\n${text}\n`;
+}
+
+/**
+ * Replace the current branch with `commits`, oldest first. Each commit only
+ * sets the paths listed in its changes; other paths carry over from its
+ * predecessor. Blobs must already exist in the repo. Returns old hash -> new
+ * hash for every commit that had a hash.
+ */
+export async function rewriteHistory(slug: string, commits: HistoryCommit[]): Promise<Map<string, string>> {
+  const repoPath = getRepoPath(slug);
+  const branch = (await runGit(repoPath, ["symbolic-ref", "HEAD"])).trim();
+  const tempRef = "refs/diffden/rewrite";
+
+  let stream = "";
+  commits.forEach((commit, index) => {
+    stream += `commit ${tempRef}\nmark :${index + 1}\n`;
+    stream += `author ${commit.authorName} <${commit.authorEmail}> ${commit.authorDate}\n`;
+    stream += `committer ${commit.committerName} <${commit.committerEmail}> ${commit.committerDate}\n`;
+    stream += dataBlock(commit.message);
+    if (index > 0) stream += `from :${index}\n`;
+    for (const change of commit.changes) {
+      stream += change.blob ? `M ${change.mode} ${change.blob} ${change.path}\n` : `D ${change.path}\n`;
+    }
+    stream += "\n";
+  });
+
+  await runGit(repoPath, ["update-ref", "-d", tempRef]).catch(() => {});
+  const marksFile = join(repoPath, ".git", "diffden-rewrite-marks");
+  await runGit(repoPath, ["fast-import", "--quiet", "--force", `--export-marks=${marksFile}`], stream);
+
+  const marks = new Map<number, string>();
+  for (const line of readFileSync(marksFile, "utf-8").split("\n")) {
+    const [mark, hash] = line.split(" ");
+    if (mark && hash) marks.set(parseInt(mark.slice(1), 10), hash);
+  }
+  rmSync(marksFile, { force: true });
+
+  const newHead = marks.get(commits.length);
+  if (!newHead) throw new Error("History rewrite produced no commits");
+  await runGit(repoPath, ["update-ref", branch, newHead]);
+  await runGit(repoPath, ["update-ref", "-d", tempRef]);
+  await runGit(repoPath, ["reset", "--quiet"]);
+
+  const mapping = new Map<string, string>();
+  commits.forEach((commit, index) => {
+    const hash = marks.get(index + 1);
+    if (commit.hash && hash) mapping.set(commit.hash, hash);
+  });
+
+  // Move labels onto the rewritten commits, keeping their notes.
+  for (const [oldHash, labels] of await getLabels(slug)) {
+    const newHash = mapping.get(oldHash);
+    if (!newHash) continue;
+    for (const label of labels) {
+      await runGit(repoPath, ["tag", "--force", "--annotate", `label/${label.name}`, "--message", label.note, newHash]);
+    }
+  }
+  return mapping;
+}
+
+/** Drop unreachable objects so rewritten history actually frees space. */
+export async function compactRepo(slug: string): Promise<void> {
+  const repoPath = getRepoPath(slug);
+  await runGit(repoPath, ["reflog", "expire", "--expire=now", "--all"]);
+  await runGit(repoPath, ["gc", "--prune=now", "--quiet"]);
+}
+
+/** Total size in bytes of a directory tree. */
+export function dirSize(path: string): number {
+  let total = 0;
+  for (const entry of readdirSync(path, { withFileTypes: true })) {
+    const full = join(path, entry.name);
+    if (entry.isDirectory()) total += dirSize(full);
+    else if (entry.isFile()) total += statSync(full).size;
+  }
+  return total;
+}
@@ -0,0 +1,127 @@
+import { spawn } from "child_process";
+import { dirname } from "path";
+import { loadConfig, type HookConfig } from "./config.ts";
+import { formatMillis } from "./settings.ts";
+import type { SnapshotTrigger } from "./tracker.ts";
+
+// User commands run after each snapshot, e.g. a linter or a script that
+// appends to a log. They get the snapshot as DIFFDEN_* environment variables
+// and as JSON on stdin, and run one at a time in the background so a slow
+// hook never holds up the next snapshot.
+
+export const HOOK_TIMEOUT_MS = 10_000;
+
+/** What a hook is told about the snapshot; also the JSON written to its stdin. */
+export interface HookEvent {
+  slug: string;
+  fileName: string;
+  path: string; // the watched file on disk
+  hash: string;
+  title: string;
+  insertions: number;
+  deletions: number;
+  trigger: SnapshotTrigger;
+}
+
+// Keep the last few lines of stderr for the failure message.
+const STDERR_KEEP = 2000;
+
+let onFailureCallback: (message: string, event: HookEvent) => void = (message) => console.error(message);
+let queue: Promise<void> = Promise.resolve();
+
+/** Where hook failures are reported; stderr until something else asks for them. */
+export function onHookFailure(cb: (message: string, event: HookEvent) => void) {
+  onFailureCallback = cb;
+}
+
+/** Queue the global and project hooks for a snapshot that was just taken. */
+export function runHooks(event: HookEvent): void {
+  queue = queue.then(() => runQueued(event));
+}
+
+/** Resolves once every queued hook has finished, for processes about to exit. */
+export function settleHooks(): Promise<void> {
+  return queue;
+}
+
+async function runQueued(event: HookEvent): Promise<void> {
+  let hooks: HookConfig[];
+  let cwd = dirname(event.path);
+  try {
+    const config = loadConfig();
+    const project = config.projects.find((p) => p.slug === event.slug);
+    if (project) cwd = project.dir;
+    hooks = [...(config.hooks ?? []), ...(project?.hooks ?? [])];
+  } catch (err) {
+    onFailureCallback(`Hooks skipped: ${(err as Error).message}`, event);
+    return;
+  }
+  for (const hook of hooks) {
+    const problem = await runHook(hook, event, cwd);
+    if (problem) onFailureCallback(`Hook ${describeCommand(hook.command)} ${problem}`, event);
+  }
+}
+
+function describeCommand(command: string): string {
+  return JSON.stringify(command.length > 40 ? `${command.slice(0, 39)}…` : command);
+}
+
+/** Run one hook; null when it succeeded, otherwise what went wrong. */
+function runHook(hook: HookConfig, event: HookEvent, cwd: string): Promise<string | null> {
+  const timeoutMs = hook.timeoutMs ?? HOOK_TIMEOUT_MS;
+  return new Promise((resolve) => {
+    const child = spawn(hook.command, {
+      shell: true,
+      cwd,
+      // Its own process group, so a timeout also stops whatever the shell started.
+      detached: process.platform !== "win32",
+      stdio: ["pipe", "ignore", "pipe"],
+      env: {
+        ...process.env,
+        DIFFDEN_SLUG: event.slug,
+        DIFFDEN_FILE: event.fileName,
+        DIFFDEN_PATH: event.path,
+        DIFFDEN_HASH: event.hash,
+        DIFFDEN_TITLE: event.title,
+        DIFFDEN_INSERTIONS: String(event.insertions),
+        DIFFDEN_DELETIONS: String(event.deletions),
+        DIFFDEN_TRIGGER: event.trigger,
+      },
+    });
+
+    let stderr = "";
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (process.platform === "win32" || !child.pid) child.kill();
+        else process.kill(-child.pid, "SIGKILL");
+      } catch {
+        // Already gone.
+      }
+    }, timeoutMs);
+
+    child.stderr!.setEncoding("utf-8");
+    child.stderr!.on("data", (chunk: string) => {
+      stderr = (stderr + chunk).slice(-STDERR_KEEP);
+    });
+    // A hook that doesn't read stdin closes it early; that's not a failure.
+    child.stdin!.on("error", () => {});
+    child.stdin!.end(JSON.stringify(event) + "\n");
+
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      resolve(`could not start: ${err.message}`);
+    });
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (timedOut) resolve(`timed out after ${formatMillis(timeoutMs)}`);
+      else if (code === 0) resolve(null);
+      else {
+        const lastLine = stderr.trim().split("\n").pop();
+        const status = code === null ? `was killed (${signal})` : `exited with ${code}`;
+        resolve(lastLine ? `${status}: ${lastLine}` : status);
+      }
+    });
+  });
+}
@@ -0,0 +1,126 @@
+import { existsSync, realpathSync } from "fs";
+import { dirname, relative } from "path";
+import { getRepoPath, getFullFilePath, type ProjectConfig } from "./config.ts";
+import { ensureRepo, withRepoLock, snapshot, importedMessage, importedFrom } from "./tracker.ts";
+import { readHistory, rewriteHistory, runGit, readBlob, rawDateSeconds, type HistoryCommit } from "./history.ts";
+import { toPosix } from "./glob.ts";
+
+// Replays a file's commits from the project's own git repository into its
+// internal repo, so history starts before DiffDen began watching.
+
+const FIELD = "\x1f";
+const RECORD = "\x1e";
+
+export interface ImportResult {
+  fileName: string;
+  imported: number; // commits added to the internal repo
+  snapshot: string | null; // snapshot of the live file taken afterwards, if it differed
+}
+
+interface SourceCommit {
+  hash: string;
+  authorName: string;
+  authorEmail: string;
+  authorDate: string; // raw
+  subject: string;
+  path: string; // the file's path in that commit, which --follow tracks across renames
+}
+
+/** The file's commits in its enclosing git repo, oldest first. */
+async function readSourceLog(livePath: string): Promise<{ top: string; commits: SourceCommit[] }> {
+  const realPath = realpathSync(livePath);
+  let top: string;
+  try {
+    top = (await runGit(dirname(realPath), ["rev-parse", "--show-toplevel"])).trim();
+  } catch {
+    throw new Error(`${livePath} is not inside a git repository`);
+  }
+
+  const out = await runGit(top, [
+    "-c",
+    "core.quotePath=false",
+    "log",
+    "--follow",
+    "--name-only",
+    "--date=raw",
+    `--format=${RECORD}%H${FIELD}%an${FIELD}%ae${FIELD}%ad${FIELD}%s`,
+    "--",
+    toPosix(relative(top, realPath)),
+  ]);
+
+  const commits: SourceCommit[] = [];
+  for (const record of out.split(RECORD)) {
+    if (!record.trim()) continue;
+    const [hash, authorName, authorEmail, authorDate, rest = ""] = record.split(FIELD);
+    const [subject = "", ...names] = rest.split("\n").filter(Boolean);
+    const path = names[names.length - 1];
+    if (!hash || !path) continue;
+    commits.push({ hash, authorName: authorName!, authorEmail: authorEmail!, authorDate: authorDate!, subject, path });
+  }
+  return { top, commits: commits.reverse() };
+}
+
+/**
+ * Import the history of a watched file from the git repo it lives in. Only
+ * commits older than the file's first DiffDen snapshot are imported, keeping
+ * their author and date; running it again imports nothing new.
+ */
+export async function importGitHistory(project: ProjectConfig, fileName: string): Promise<ImportResult> {
+  const livePath = getFullFilePath(project, fileName);
+  if (!existsSync(livePath)) throw new Error(`No such file: ${livePath}`);
+  const { top, commits: source } = await readSourceLog(livePath);
+  const repoPath = getRepoPath(project.slug);
+  await ensureRepo(project.slug);
+
+  const imported = await withRepoLock(project.slug, async () => {
+    const existing = await readHistory(project.slug);
+    const seen = new Set(existing.map((commit) => importedFrom(commit.message)).filter(Boolean));
+    const firstSnapshot = existing.find(
+      (commit) => !importedFrom(commit.message) && commit.changes.some((change) => change.path === fileName),
+    );
+    const cutoff = firstSnapshot ? rawDateSeconds(firstSnapshot.authorDate) : Infinity;
+
+    const commits: HistoryCommit[] = [];
+    let previousBlob: string | null = null;
+    for (const commit of source) {
+      if (seen.has(commit.hash) || rawDateSeconds(commit.authorDate) >= cutoff) continue;
+      let content: Buffer;
+      try {
+        content = await readBlob(top, `${commit.hash}:${commit.path}`);
+      } catch {
+        continue; // the commit deleted the file
+      }
+      const blob = (await runGit(repoPath, ["hash-object", "-w", "--stdin"], content)).trim();
+      if (blob === previousBlob) continue;
+      previousBlob = blob;
+      commits.push({
+        hash: "",
+        authorName: commit.authorName,
+        authorEmail: commit.authorEmail,
+        authorDate: commit.authorDate,
+        committerName: "diffden",
+        committerEmail: "diffden@local",
+        committerDate: commit.authorDate,
+        message: importedMessage(fileName, commit.subject, commit.hash),
+        changes: [{ path: fileName, mode: "100644", blob }],
+      });
+    }
+    if (commits.length === 0) return 0;
+
+    // Slot the imported commits in by date without reordering existing history.
+    const merged: HistoryCommit[] = [];
+    let next = 0;
+    for (const commit of existing) {
+      while (next < commits.length && rawDateSeconds(commits[next]!.authorDate) <= rawDateSeconds(commit.authorDate)) {
+        merged.push(commits[next++]!);
+      }
+      merged.push(commit);
+    }
+    merged.push(...commits.slice(next));
+    await rewriteHistory(project.slug, merged);
+    return commits.length;
+  });
+
+  // Make sure the newest snapshot is the file as it is now, not its last commit.
+  return { fileName, imported, snapshot: await snapshot(project.slug, livePath, fileName, { trigger: "import" }) };
+}
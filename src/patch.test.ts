@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { parseDiff, reverseHunks, summarizeChange } from "./patch.ts";
+
+const lines = (...text: string[]) => text.join("\n") + "\n";
+
+// b -> B near the top and k -> K near the bottom, one line of context each.
+const TWO_HUNKS = parseDiff(
+  lines(
+    "diff --git a/notes.md b/notes.md",
+    "--- a/notes.md",
+    "+++ b/notes.md",
+    "@@ -1,3 +1,3 @@",
+    " a",
+    "-b",
+    "+B",
+    " c",
+    "@@ -10,3 +10,3 @@",
+    " j",
+    "-k",
+    "+K",
+    " l",
+  ),
+);
+const OLD = lines(..."abcdefghijkl");
+const NEW = lines("a", "B", ..."cdefghij", "K", "l");
+
+describe("reverseHunks", () => {
+  test("reverts only the selected hunks", () => {
+    expect(reverseHunks(NEW, TWO_HUNKS, [1])).toEqual({
+      content: lines("a", "B", ..."cdefghijkl"),
+      applied: [1],
+      conflicts: [],
+    });
+    expect(reverseHunks(NEW, TWO_HUNKS, [1, 0, 1]).content).toBe(OLD);
+  });
+
+  test("finds a hunk that has moved since the diff", () => {
+    const drifted = lines("new", "lines", "a", "B", ..."cdefghij", "K", "l");
+    const result = reverseHunks(drifted, TWO_HUNKS, [0, 1]);
+    expect(result.content).toBe(lines("new", "lines", ...OLD.trimEnd().split("\n")));
+    expect(result.applied).toEqual([0, 1]);
+  });
+
+  test("reports a hunk whose lines were edited since as a conflict", () => {
+    const edited = NEW.replace("K", "K2");
+    expect(reverseHunks(edited, TWO_HUNKS, [0, 1])).toEqual({
+      content: lines(..."abcdefghij", "K2", "l"),
+      applied: [0],
+      conflicts: [1],
+    });
+  });
+
+  test("keeps later hunks in place after one that changed the line count", () => {
+    const diff = parseDiff(lines("@@ -2,0 +3,2 @@", "+x", "+y", "@@ -5 +7 @@", "-e", "+E"));
+    const content = lines("a", "b", "x", "y", "c", "d", "E");
+    expect(reverseHunks(content, diff, [0, 1]).content).toBe(lines(..."abcde"));
+  });
+
+  test("puts back lines removed by a hunk with no new side", () => {
+    const diff = parseDiff(lines("@@ -2 +1,0 @@", "-b"));
+    expect(reverseHunks(lines("a", "c"), diff, [0]).content).toBe(lines(..."abc"));
+  });
+
+  test("prefers the occurrence nearest the hunk's position", () => {
+    const diff = parseDiff(lines("@@ -3 +3 @@", "-z", "+x"));
+    expect(reverseHunks(lines("x", "y", "x", "y"), diff, [0]).content).toBe(lines("x", "y", "z", "y"));
+  });
+});
+
+describe("summarizeChange", () => {
+  const hunk = (...body: string[]) => parseDiff(lines("@@ -1,3 +1,3 @@", ...body));
+
+  test("names the first changed heading of a Markdown file", () => {
+    const diff = hunk(" intro", "+some text", "-## Old plan", "+## New plan");
+    expect(summarizeChange(diff, true)).toBe("Old plan");
+    expect(summarizeChange(diff, false)).toBe("some text");
+  });
+
+  test("falls back to the first added line, then the first removed one", () => {
+    expect(summarizeChange(hunk("-gone", "+  added line  "), false)).toBe("added line");
+    expect(summarizeChange(hunk(" kept", "-gone"), false)).toBe("removed: gone");
+  });
+
+  test("calls a change to blank lines only whitespace", () => {
+    expect(summarizeChange(hunk(" text", "+", "-   "), true)).toBe("whitespace changes");
+  });
+
+  test("shortens long lines", () => {
+    const summary = summarizeChange(hunk(`+${"word ".repeat(30)}`), false);
+    expect(summary).toHaveLength(72);
+    expect(summary.endsWith("…")).toBe(true);
+  });
+});
@@ -0,0 +1,242 @@
+// Minimal unified-diff model for the single-file diffs git produces here.
+
+export interface Hunk {
+  header: string; // the "@@ -a,b +c,d @@" line
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // body lines, each prefixed with " ", "+", "-" or "\"
+}
+
+export interface ParsedDiff {
+  header: string[]; // "diff --git", "index", "---", "+++" lines
+  hunks: Hunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function parseDiff(diff: string): ParsedDiff {
+  const header: string[] = [];
+  const hunks: Hunk[] = [];
+  const lines = diff.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  for (const line of lines) {
+    const match = line.match(HUNK_HEADER);
+    if (match) {
+      hunks.push({
+        header: line,
+        oldStart: parseInt(match[1]!, 10),
+        oldLines: match[2] === undefined ? 1 : parseInt(match[2], 10),
+        newStart: parseInt(match[3]!, 10),
+        newLines: match[4] === undefined ? 1 : parseInt(match[4], 10),
+        lines: [],
+      });
+    } else if (hunks.length > 0) {
+      hunks[hunks.length - 1]!.lines.push(line);
+    } else {
+      header.push(line);
+    }
+  }
+  return { header, hunks };
+}
+
+export function formatDiff(parsed: ParsedDiff): string {
+  const lines = [...parsed.header];
+  for (const hunk of parsed.hunks) lines.push(hunk.header, ...hunk.lines);
+  return lines.join("\n") + "\n";
+}
+
+/** Index of the first hunk with an added or removed line satisfying `test`, or -1. */
+export function findHunk(parsed: ParsedDiff, test: (text: string) => boolean): number {
+  return parsed.hunks.findIndex((hunk) =>
+    hunk.lines.some((line) => (line.startsWith("+") || line.startsWith("-")) && test(line.slice(1))),
+  );
+}
+
+/** Count of added and removed lines across all hunks. */
+export function countChanges(parsed: ParsedDiff): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const hunk of parsed.hunks) {
+    for (const line of hunk.lines) {
+      if (line.startsWith("+")) added++;
+      else if (line.startsWith("-")) removed++;
+    }
+  }
+  return { added, removed };
+}
+
+/** Zero-based lines of the new file that were added, and lines that directly follow a removal. */
+export function changedLines(parsed: ParsedDiff): { added: number[]; removedAt: number[] } {
+  const added: number[] = [];
+  const removedAt: number[] = [];
+  for (const hunk of parsed.hunks) {
+    let line = Math.max(0, hunk.newStart - 1);
+    for (const text of hunk.lines) {
+      if (text.startsWith("+")) added.push(line++);
+      else if (text.startsWith("-")) {
+        if (removedAt[removedAt.length - 1] !== line) removedAt.push(line);
+      } else if (text.startsWith(" ")) line++;
+    }
+  }
+  return { added, removedAt };
+}
+
+const SUMMARY_LENGTH = 72;
+const MARKDOWN_HEADING = /^#{1,6}\s+(.*\S)/;
+
+/**
+ * A one-line description of a diff: the first changed Markdown heading when
+ * `markdown` is set, otherwise the first added line, or the first removed one.
+ */
+export function summarizeChange(parsed: ParsedDiff, markdown: boolean): string {
+  const changed = parsed.hunks.flatMap((hunk) => hunk.lines).filter((line) => /^[+-]\s*\S/.test(line));
+  const heading = markdown ? changed.map((line) => line.slice(1).match(MARKDOWN_HEADING)).find(Boolean) : null;
+  const added = changed.find((line) => line.startsWith("+"));
+  const removed = changed.find((line) => line.startsWith("-"));
+  let summary: string;
+  if (heading) summary = heading[1]!;
+  else if (added) summary = added.slice(1).trim();
+  else if (removed) summary = `removed: ${removed.slice(1).trim()}`;
+  else return "whitespace changes";
+  return summary.length > SUMMARY_LENGTH ? `${summary.slice(0, SUMMARY_LENGTH - 1)}…` : summary;
+}
+
+export interface ApplyResult {
+  content: string;
+  applied: number[]; // hunk indexes written to the content
+  conflicts: number[]; // hunk indexes whose lines no longer appear in the content
+}
+
+function sideOf(hunk: Hunk, marker: "+" | "-"): string[] {
+  return hunk.lines.filter((line) => line[0] === " " || line[0] === marker).map((line) => line.slice(1));
+}
+
+// Where `needle` occurs in `lines`, preferring the occurrence closest to `expected`.
+function locate(lines: string[], needle: string[], expected: number): number {
+  if (needle.length === 0) return expected >= 0 && expected <= lines.length ? expected : -1;
+  let best = -1;
+  for (let at = 0; at + needle.length <= lines.length; at++) {
+    if (!needle.every((line, i) => lines[at + i] === line)) continue;
+    if (best === -1 || Math.abs(at - expected) < Math.abs(best - expected)) best = at;
+  }
+  return best;
+}
+
+/**
+ * Undo the selected hunks of `parsed` in `content`: each hunk's new side is
+ * swapped back for its old side. A hunk whose new side can't be found (the
+ * file has drifted since the diff) is reported as a conflict and left alone.
+ */
+export function reverseHunks(content: string, parsed: ParsedDiff, indexes: number[]): ApplyResult {
+  const lines = content.split("\n");
+  const applied: number[] = [];
+  const conflicts: number[] = [];
+  let offset = 0;
+
+  for (const index of [...new Set(indexes)].sort((a, b) => a - b)) {
+    const hunk = parsed.hunks[index];
+    if (!hunk) continue;
+    const after = sideOf(hunk, "+");
+    const before = sideOf(hunk, "-");
+    // An empty new side starts after line newStart rather than at it.
+    const start = hunk.newLines === 0 ? hunk.newStart : hunk.newStart - 1;
+    const at = locate(lines, after, start + offset);
+    if (at === -1) {
+      conflicts.push(index);
+      continue;
+    }
+    lines.splice(at, after.length, ...before);
+    offset = at - start + before.length - after.length;
+    applied.push(index);
+  }
+  return { content: lines.join("\n"), applied, conflicts };
+}
+
+export type SegmentKind = "same" | "added" | "removed";
+
+export interface Segment {
+  text: string;
+  kind: SegmentKind;
+}
+
+export interface WordRow {
+  kind: "context" | "changed" | "added" | "removed";
+  segments: Segment[]; // a changed row holds both versions, interleaved
+}
+
+const WORD = /\w+|\s+|[^\w\s]/g;
+const MAX_WORD_CELLS = 250_000; // past this, lines are compared whole rather than word by word
+
+/** Mark the words that differ between two versions of a line. */
+export function diffWords(oldLine: string, newLine: string): Segment[] {
+  const a = oldLine.match(WORD) ?? [];
+  const b = newLine.match(WORD) ?? [];
+  if (a.length * b.length > MAX_WORD_CELLS) {
+    return [
+      { text: oldLine, kind: "removed" },
+      { text: newLine, kind: "added" },
+    ];
+  }
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] = a[i] === b[j] ? lengths[i + 1]![j + 1]! + 1 : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const segments: Segment[] = [];
+  const push = (text: string, kind: SegmentKind) => {
+    const last = segments[segments.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else segments.push({ text, kind });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i++]!, "same");
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      push(a[i++]!, "removed");
+    } else {
+      push(b[j++]!, "added");
+    }
+  }
+  while (i < a.length) push(a[i++]!, "removed");
+  while (j < b.length) push(b[j++]!, "added");
+  return segments;
+}
+
+/** A hunk as rows where each removed line is paired with the added line replacing it. */
+export function wordRows(hunk: Hunk): WordRow[] {
+  const rows: WordRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) rows.push({ kind: "changed", segments: diffWords(removed[k]!, added[k]!) });
+    for (const text of removed.slice(paired)) rows.push({ kind: "removed", segments: [{ text, kind: "removed" }] });
+    for (const text of added.slice(paired)) rows.push({ kind: "added", segments: [{ text, kind: "added" }] });
+    removed = [];
+    added = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.startsWith("-")) {
+      if (added.length > 0) flush();
+      removed.push(line.slice(1));
+    } else if (line.startsWith("+")) {
+      added.push(line.slice(1));
+    } else if (line.startsWith(" ")) {
+      flush();
+      rows.push({ kind: "context", segments: [{ text: line.slice(1), kind: "same" }] });
+    }
+  }
+  flush();
+  return rows;
+}
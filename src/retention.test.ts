@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, renameSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { CONFIG_VERSION, type ProjectConfig } from "./config.ts";
+import { readHistory } from "./history.ts";
+import { pruneProject, selectRetained } from "./retention.ts";
+import { getContent, getLog, snapshot, snapshotRename } from "./tracker.ts";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const NOW = Date.UTC(2026, 4, 10, 12, 0, 0);
+
+function at(hash: string, ago: number) {
+  return { hash, date: new Date(NOW - ago) };
+}
+
+describe("selectRetained", () => {
+  const policy = { keepAllHours: 2, hourlyDays: 1, dailyDays: 7 };
+
+  test("keeps everything younger than keepAllHours", () => {
+    const snapshots = [at("a", 10 * 60_000), at("b", 20 * 60_000), at("c", 90 * 60_000)];
+    expect(selectRetained(snapshots, policy, NOW)).toEqual(new Set(["a", "b", "c"]));
+  });
+
+  test("keeps the latest snapshot of each hour, then of each day", () => {
+    const snapshots = [
+      at("hour-5-late", 5 * HOUR + 5 * 60_000),
+      at("hour-5-early", 5 * HOUR + 50 * 60_000),
+      at("hour-6", 6 * HOUR + 30 * 60_000),
+      at("day-3-late", 3 * DAY),
+      at("day-3-early", 3 * DAY + HOUR),
+    ];
+    // Dates here fall mid-hour and mid-day, so the buckets split as named.
+    expect(selectRetained(snapshots, policy, NOW)).toEqual(new Set(["hour-5-late", "hour-6", "day-3-late"]));
+  });
+
+  test("drops snapshots older than dailyDays, except the newest", () => {
+    expect(selectRetained([at("old", 30 * DAY), at("older", 31 * DAY)], policy, NOW)).toEqual(new Set(["old"]));
+    expect(selectRetained([at("new", HOUR / 2), at("old", 30 * DAY)], policy, NOW)).toEqual(new Set(["new"]));
+  });
+
+  test("keeps daily snapshots forever without dailyDays", () => {
+    const forever = { keepAllHours: 0, hourlyDays: 0 };
+    const snapshots = [at("a", 100 * DAY), at("b", 200 * DAY), at("c", 200 * DAY + 60_000)];
+    expect(selectRetained(snapshots, forever, NOW)).toEqual(new Set(["a", "b"]));
+  });
+
+  test("accepts snapshots in any order", () => {
+    const snapshots = [at("c", 5 * HOUR + 50 * 60_000), at("a", 10 * 60_000), at("b", 5 * HOUR + 5 * 60_000)];
+    expect(selectRetained(snapshots, policy, NOW)).toEqual(new Set(["a", "b"]));
+  });
+});
+
+describe("pruneProject", () => {
+  test("keeps the commit that renamed a file even when newer snapshots follow it", async () => {
+    const dir = mkdtempSync(join(homedir(), "retention-"));
+    const project: ProjectConfig = {
+      slug: "retention-rename",
+      name: "retention",
+      dir,
+      files: ["notes.md", "todo.md"],
+      retention: { keepAllHours: 0, hourlyDays: 0, dailyDays: 0 }, // only the newest of each file
+    };
+    const later = new Date(Date.now() + 60_000);
+    const write = async (fileName: string, content: string, date?: Date) => {
+      writeFileSync(join(dir, fileName), content);
+      await snapshot(project.slug, join(dir, fileName), fileName, { date });
+    };
+
+    await write("notes.md", "one\n", new Date(Date.UTC(2026, 0, 1)));
+    renameSync(join(dir, "notes.md"), join(dir, "todo.md"));
+    expect(await snapshotRename(project.slug, join(dir, "todo.md"), "notes.md", "todo.md")).not.toBeNull();
+    await write("todo.md", "two\n", later);
+    await write("notes.md", "fresh\n", later);
+
+    await pruneProject({ version: CONFIG_VERSION, projects: [project] }, project);
+
+    const commits = await readHistory(project.slug);
+    expect(commits.map((commit) => commit.message.split("\n")[0])).toEqual([
+      "[todo.md] renamed from notes.md",
+      "[todo.md] two",
+      "[notes.md] fresh",
+    ]);
+    const [todo] = await getLog(project.slug, "todo.md");
+    expect(await getContent(project.slug, todo!.hash, "todo.md")).toBe("two\n");
+  });
+});
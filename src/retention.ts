@@ -0,0 +1,160 @@
+import { join } from "path";
+import { loadConfig, getRepoPath, getRetentionPolicy, type AppConfig, type ProjectConfig, type RetentionPolicy } from "./config.ts";
+import { getLabels, withRepoLock } from "./tracker.ts";
+import { readHistory, rewriteHistory, compactRepo, rawDateSeconds, dirSize, type HistoryCommit } from "./history.ts";
+import { pruneObjects } from "./blobs.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const AUTO_PRUNE_INTERVAL_MS = 6 * HOUR_MS;
+
+export interface PruneResult {
+  slug: string;
+  snapshotsBefore: number;
+  snapshotsAfter: number;
+  bytesBefore: number;
+  bytesAfter: number;
+}
+
+interface Dated {
+  hash: string;
+  date: Date;
+}
+
+/** Hashes of the snapshots `policy` keeps, given one file's snapshots in any order. */
+export function selectRetained(snapshots: Dated[], policy: RetentionPolicy, now = Date.now()): Set<string> {
+  const newestFirst = [...snapshots].sort((a, b) => b.date.getTime() - a.date.getTime());
+  const kept = new Set<string>();
+  const buckets = new Set<string>();
+
+  newestFirst.forEach((snap, index) => {
+    const time = snap.date.getTime();
+    const age = now - time;
+    let bucket: string | null = null;
+    if (age < policy.hourlyDays * DAY_MS) {
+      bucket = `h${Math.floor(time / HOUR_MS)}`;
+    } else if (policy.dailyDays === undefined || age < policy.dailyDays * DAY_MS) {
+      bucket = `d${Math.floor(time / DAY_MS)}`;
+    }
+    // Newest first, so the first snapshot seen in a bucket is its latest state.
+    // Snapshots kept for other reasons still fill their bucket.
+    const latestInBucket = bucket !== null && !buckets.has(bucket);
+    if (bucket !== null) buckets.add(bucket);
+    if (index === 0 || age < policy.keepAllHours * HOUR_MS || latestInBucket) kept.add(snap.hash);
+  });
+  return kept;
+}
+
+function commitDate(commit: HistoryCommit): Date {
+  return new Date(rawDateSeconds(commit.authorDate) * 1000);
+}
+
+/** Rewrite a project's internal history down to what its retention rules keep. */
+export async function pruneProject(
+  config: AppConfig,
+  project: ProjectConfig,
+  options: { dryRun?: boolean } = {},
+): Promise<PruneResult> {
+  const gitDir = join(getRepoPath(project.slug), ".git");
+
+  return withRepoLock(project.slug, async () => {
+    const commits = await readHistory(project.slug);
+    const bytesBefore = commits.length > 0 ? dirSize(gitDir) : 0;
+    const result: PruneResult = {
+      slug: project.slug,
+      snapshotsBefore: commits.length,
+      snapshotsAfter: commits.length,
+      bytesBefore,
+      bytesAfter: bytesBefore,
+    };
+    if (commits.length === 0) return result;
+
+    const keep = new Set((await getLabels(project.slug)).keys());
+    // Commits only set the paths they change, so one that removes a path
+    // (a deletion, or the old side of a rename) can't be dropped without
+    // leaving that path behind in every later tree.
+    for (const commit of commits) {
+      if (commit.changes.some((change) => change.blob === null)) keep.add(commit.hash);
+    }
+    const byPath = new Map<string, HistoryCommit[]>();
+    for (const commit of commits) {
+      for (const change of commit.changes) {
+        const list = byPath.get(change.path) ?? [];
+        list.push(commit);
+        byPath.set(change.path, list);
+      }
+    }
+    for (const [path, pathCommits] of byPath) {
+      const policy = getRetentionPolicy(config, project, path);
+      const retained = policy
+        ? selectRetained(pathCommits.map((c) => ({ hash: c.hash, date: commitDate(c) })), policy)
+        : new Set(pathCommits.map((c) => c.hash));
+      for (const hash of retained) keep.add(hash);
+    }
+
+    const retainedCommits = commits.filter((commit) => keep.has(commit.hash));
+    result.snapshotsAfter = retainedCommits.length;
+    if (options.dryRun || retainedCommits.length === commits.length) return result;
+
+    await rewriteHistory(project.slug, retainedCommits);
+    await compactRepo(project.slug);
+    await pruneObjects(project.slug);
+    result.bytesAfter = dirSize(gitDir);
+    return result;
+  });
+}
+
+/** Prune every project that has a retention policy somewhere in its config chain. */
+export async function pruneAll(config: AppConfig, options: { dryRun?: boolean } = {}): Promise<PruneResult[]> {
+  const results: PruneResult[] = [];
+  for (const project of config.projects) {
+    const hasPolicy =
+      project.retention ??
+      config.retention ??
+      Object.values(project.fileOptions ?? {}).find((options) => options.retention);
+    if (hasPolicy) results.push(await pruneProject(config, project, options));
+  }
+  return results;
+}
+
+/** Prune now and periodically while `autoPrune` is enabled. Returns a function that stops the timer. */
+export function startAutoPrune(onResults: (results: PruneResult[]) => void, onError: (err: Error) => void): () => void {
+  const run = async () => {
+    try {
+      const config = loadConfig();
+      if (!config.autoPrune) return;
+      onResults(await pruneAll(config));
+    } catch (err) {
+      onError(err instanceof Error ? err : new Error(String(err)));
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, AUTO_PRUNE_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/** Parse a duration such as "36h", "7d" or "2w" into milliseconds. */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)([hdw])$/);
+  if (!match) return null;
+  const amount = parseFloat(match[1]!);
+  const unit = { h: HOUR_MS, d: DAY_MS, w: 7 * DAY_MS }[match[2] as "h" | "d" | "w"];
+  return amount * unit;
+}
+
+/** Parse "<keep-all> <hourly-until> [daily-until]", e.g. "24h 7d 90d". */
+export function parseRetention(args: string[]): RetentionPolicy | null {
+  const [keepAll, hourly, daily] = args.map(parseDuration);
+  if (keepAll == null || hourly == null || (args.length > 2 && daily == null) || args.length > 3) return null;
+  const policy: RetentionPolicy = { keepAllHours: keepAll / HOUR_MS, hourlyDays: hourly / DAY_MS };
+  if (daily != null) policy.dailyDays = daily / DAY_MS;
+  return policy;
+}
+
+export function formatRetention(policy: RetentionPolicy | null): string {
+  if (!policy) return "keep everything";
+  const daily = policy.dailyDays === undefined ? "daily forever" : `daily until ${policy.dailyDays}d`;
+  return `all for ${policy.keepAllHours}h, hourly until ${policy.hourlyDays}d, ${daily}`;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { formatMillis, parseMillis, parseSettingValue, parseSize } from "./settings.ts";
+
+describe("parseMillis", () => {
+  test("reads each unit, defaulting to milliseconds", () => {
+    expect(parseMillis("250")).toBe(250);
+    expect(parseMillis("500ms")).toBe(500);
+    expect(parseMillis("1.5s")).toBe(1500);
+    expect(parseMillis(" 5M ")).toBe(300_000);
+    expect(parseMillis("1h")).toBe(3_600_000);
+  });
+
+  test("rejects anything else", () => {
+    for (const value of ["", "s", "-1s", "2 days", "1d", "1e3"]) expect(parseMillis(value)).toBeNull();
+  });
+
+  test("round-trips through formatMillis", () => {
+    for (const value of ["0", "750ms", "30s", "5m", "2h"]) expect(formatMillis(parseMillis(value)!)).toBe(value);
+  });
+});
+
+describe("parseSize", () => {
+  test("reads binary units with or without the B", () => {
+    expect(parseSize("100")).toBe(100);
+    expect(parseSize("100b")).toBe(100);
+    expect(parseSize("512k")).toBe(512 * 1024);
+    expect(parseSize("2 MB")).toBe(2 * 1024 ** 2);
+    expect(parseSize("0.5g")).toBe(1024 ** 3 / 2);
+  });
+
+  test("rejects anything else", () => {
+    for (const value of ["", "mb", "-1k", "1tb", "1kib"]) expect(parseSize(value)).toBeNull();
+  });
+});
+
+describe("parseSettingValue", () => {
+  test("parses each setting by its kind", () => {
+    expect(parseSettingValue("debounceMs", "2s")).toBe(2000);
+    expect(parseSettingValue("minIntervalMs", "1m")).toBe(60_000);
+    expect(parseSettingValue("maxFileSize", "1mb")).toBe(1024 ** 2);
+    expect(parseSettingValue("pointerAbove", "64k")).toBe(64 * 1024);
+    expect(parseSettingValue("binaryFiles", " Pointer ")).toBe("pointer");
+  });
+
+  test("reads switches, keeping off as false rather than undefined", () => {
+    expect(parseSettingValue("ignoreWhitespace", "on")).toBe(true);
+    expect(parseSettingValue("ignoreWhitespace", "YES")).toBe(true);
+    expect(parseSettingValue("ignoreWhitespace", "off")).toBe(false);
+    expect(parseSettingValue("ignoreWhitespace", "false")).toBe(false);
+  });
+
+  test("is undefined when the value doesn't fit the setting", () => {
+    expect(parseSettingValue("ignoreWhitespace", "maybe")).toBeUndefined();
+    expect(parseSettingValue("binaryFiles", "keep")).toBeUndefined();
+    expect(parseSettingValue("maxFileSize", "2s")).toBeUndefined();
+    expect(parseSettingValue("debounceMs", "1mb")).toBeUndefined();
+  });
+});
@@ -0,0 +1,69 @@
+import type { BinaryHandling, ResolvedSnapshotSettings, SnapshotSettingKey, SnapshotSettings } from "./config.ts";
+import { formatBytes } from "./utils.ts";
+
+// Names, parsing and display of snapshot settings for /set and /settings.
+
+/** User-facing names, e.g. "/set min-interval 30s". */
+export const SETTING_NAMES: Record<string, SnapshotSettingKey> = {
+  debounce: "debounceMs",
+  "min-interval": "minIntervalMs",
+  "max-size": "maxFileSize",
+  "ignore-whitespace": "ignoreWhitespace",
+  "pointer-above": "pointerAbove",
+  binary: "binaryFiles",
+};
+
+const BINARY_HANDLING: BinaryHandling[] = ["store", "pointer", "skip"];
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+const SIZE_UNITS: Record<string, number> = { b: 1, k: 1024, kb: 1024, m: 1024 ** 2, mb: 1024 ** 2, g: 1024 ** 3, gb: 1024 ** 3 };
+
+/** "500ms", "2s", "5m" or "1h" in milliseconds; a bare number is milliseconds. */
+export function parseMillis(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)(ms|s|m|h)?$/);
+  if (!match) return null;
+  return Math.round(Number(match[1]) * DURATION_UNITS[match[2] ?? "ms"]!);
+}
+
+/** "512k", "2MB" or "1g" in bytes; a bare number is bytes. */
+export function parseSize(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb?|mb?|gb?)?$/);
+  if (!match) return null;
+  return Math.round(Number(match[1]) * SIZE_UNITS[match[2] ?? "b"]!);
+}
+
+function parseSwitch(value: string): boolean | null {
+  const lower = value.trim().toLowerCase();
+  if (["on", "true", "yes"].includes(lower)) return true;
+  if (["off", "false", "no"].includes(lower)) return false;
+  return null;
+}
+
+/** Parse the value typed for a setting; undefined when it doesn't fit. */
+export function parseSettingValue<K extends SnapshotSettingKey>(key: K, value: string): SnapshotSettings[K] | undefined {
+  let parsed: SnapshotSettings[SnapshotSettingKey] | null;
+  if (key === "ignoreWhitespace") parsed = parseSwitch(value);
+  else if (key === "binaryFiles") parsed = BINARY_HANDLING.find((choice) => choice === value.trim().toLowerCase()) ?? null;
+  else if (key === "maxFileSize" || key === "pointerAbove") parsed = parseSize(value);
+  else parsed = parseMillis(value);
+  return (parsed ?? undefined) as SnapshotSettings[K] | undefined;
+}
+
+export function formatMillis(ms: number): string {
+  if (ms === 0) return "0";
+  if (ms % 3_600_000 === 0) return `${ms / 3_600_000}h`;
+  if (ms % 60_000 === 0) return `${ms / 60_000}m`;
+  if (ms % 1000 === 0) return `${ms / 1000}s`;
+  return `${ms}ms`;
+}
+
+export function formatSettings(settings: ResolvedSnapshotSettings): string {
+  return [
+    `debounce ${formatMillis(settings.debounceMs)}`,
+    `min-interval ${formatMillis(settings.minIntervalMs)}`,
+    `max-size ${settings.maxFileSize === null ? "none" : formatBytes(settings.maxFileSize)}`,
+    `ignore-whitespace ${settings.ignoreWhitespace ? "on" : "off"}`,
+    `pointer-above ${settings.pointerAbove === null ? "none" : formatBytes(settings.pointerAbove)}`,
+    `binary ${settings.binaryFiles}`,
+  ].join(" · ");
+}
@@ -0,0 +1,12 @@
+import { afterAll, mock } from "bun:test";
+import * as os from "os";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+
+// Preloaded by `bun test` (see bunfig.toml). DATA_DIR is derived from the home
+// directory when utils.ts loads, so tests get a disposable one instead of ~/.diffden.
+// Tests keep the files they snapshot there too.
+const home = mkdtempSync(join(os.tmpdir(), "diffden-test-"));
+mock.module("os", () => ({ ...os, homedir: () => home }));
+// Registered in a preload, this runs once, after the last test file.
+afterAll(() => rmSync(home, { recursive: true, force: true }));
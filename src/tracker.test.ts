@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { getLog, getWorkingDiff, snapshot } from "./tracker.ts";
+
+describe("getWorkingDiff", () => {
+  // Names git writes as is, and ones it puts in C-style quotes.
+  for (const [index, fileName] of ["notes.md", "my notes.md", "café.md", 'say "hi".md', "tab\there.md"].entries()) {
+    test(`names both sides ${JSON.stringify(fileName)}`, async () => {
+      const dir = mkdtempSync(join(homedir(), "working diff "));
+      const path = join(dir, fileName);
+      const slug = `working-diff-${index}`;
+      writeFileSync(path, "one\n");
+      await snapshot(slug, path, fileName);
+      writeFileSync(path, "two\n");
+      const [latest] = await getLog(slug, fileName);
+
+      const header = (await getWorkingDiff(slug, latest!.hash, fileName, path)).split("@@")[0]!;
+      expect(header).not.toContain(dir.slice(1));
+      expect(header).not.toContain("diffden-diff-");
+      const quoted = /["\t]/.test(fileName) ? JSON.stringify(`a/${fileName}`) : `a/${fileName}`;
+      expect(header).toContain(`--- ${quoted}`);
+      expect(header).toContain(`+++ ${quoted.replace("a/", "b/")}`);
+    });
+  }
+});
@@ -1,14 +1,90 @@
 import simpleGit, { type SimpleGit, type LogResult, type DefaultLogFields } from "simple-git";
-import { existsSync, mkdirSync, copyFileSync, writeFileSync } from "fs";
-import { join, basename } from "path";
-import { getRepoPath } from "./config.ts";
+import { existsSync, mkdirSync, mkdtempSync, copyFileSync, readFileSync, writeFileSync, rmSync, statSync } from "fs";
+import { hostname } from "os";
+import { join, basename, dirname, extname, resolve } from "path";
+import {
+  getRepoPath,
+  getSnapshotSettings,
+  listProjectFiles,
+  loadConfig,
+  SNAPSHOT_DEFAULTS,
+  type ProjectConfig,
+  type ResolvedSnapshotSettings,
+} from "./config.ts";
+import { parseDiff, reverseHunks, summarizeChange, type ParsedDiff } from "./patch.ts";
+import { formatBytes } from "./utils.ts";
+import { matchesAny, toPosix } from "./glob.ts";
+import { runHooks, type HookEvent } from "./hooks.ts";
+import { recordEvent } from "./events.ts";
+import {
+  compareBytes,
+  describeType,
+  formatPointer,
+  isBinary,
+  needsSummary,
+  parsePointer,
+  readHead,
+  readObject,
+  storeObject,
+  type FileSummary,
+  type Pointer,
+} from "./blobs.ts";
+
+export interface SnapshotLabel {
+  name: string;
+  note: string;
+}
+
+/**
+ * What made a snapshot: a watched change, a command, a restore (its
+ * checkpoint), a git import, or a change found on startup (catch-up).
+ */
+export type SnapshotTrigger = "watch" | "manual" | "restore" | "import" | "catch-up";
+
+const TRIGGERS: SnapshotTrigger[] = ["watch", "manual", "restore", "import", "catch-up"];
+
+/** Trailers recorded on each commit. Older snapshots have none of them. */
+export interface SnapshotMeta {
+  source: string | null; // absolute path of the file that was snapshotted
+  size: number | null; // bytes
+  trigger: SnapshotTrigger | null;
+  host: string | null;
+  pointer: boolean; // the commit holds an LFS-style pointer, not the contents
+}
 
 export interface SnapshotInfo {
   hash: string;
   date: Date;
   message: string;
+  title: string; // the subject without its "[file] " prefix, e.g. the first changed heading
+  meta: SnapshotMeta;
   insertions: number;
   deletions: number;
+  labels: SnapshotLabel[];
+  imported: boolean; // replayed from the project's own git history
+}
+
+// Labels are annotated tags under refs/tags/label/; the tag message holds the note.
+const LABEL_PREFIX = "label/";
+const LABEL_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+// Imported commits keep the original subject and record the source commit in a trailer.
+const IMPORTED_SUBJECT = /^\[[^\]]*\] imported: /;
+const IMPORTED_FROM = /^Imported-From: ([0-9a-f]+)$/m;
+
+// Git operations that write to a repo are queued per slug so concurrent
+// snapshots of different files can't interleave their add/commit steps.
+const repoLocks = new Map<string, Promise<unknown>>();
+
+export function withRepoLock<T>(slug: string, fn: () => Promise<T>): Promise<T> {
+  const previous = repoLocks.get(slug) ?? Promise.resolve();
+  const next = previous.then(fn);
+  const settled = next.catch(() => {});
+  repoLocks.set(slug, settled);
+  settled.then(() => {
+    if (repoLocks.get(slug) === settled) repoLocks.delete(slug);
+  });
+  return next;
 }
 
 function ensureRepoDir(slug: string): string {
@@ -17,6 +93,54 @@ function ensureRepoDir(slug: string): string {
   return repoPath;
 }
 
+export function importedMessage(fileName: string, subject: string, sourceHash: string): string {
+  return `[${fileName}] imported: ${subject}\n\nImported-From: ${sourceHash}\nTrigger: import`;
+}
+
+const SUBJECT_PREFIX = /^\[[^\]]*\] /;
+const TRAILER = /^([A-Z][A-Za-z-]*): (.*)$/gm;
+
+function snapshotMessage(fileName: string, title: string, meta: SnapshotMeta): string {
+  const trailers = [
+    meta.source !== null ? `Source: ${meta.source}` : "",
+    meta.size !== null ? `Size: ${meta.size}` : "",
+    meta.trigger !== null ? `Trigger: ${meta.trigger}` : "",
+    meta.host !== null ? `Host: ${meta.host}` : "",
+    // Recorded rather than guessed from the blob, which may be a real git LFS pointer file.
+    meta.pointer ? "Pointer: true" : "",
+  ].filter(Boolean);
+  return `[${fileName}] ${title}\n\n${trailers.join("\n")}`;
+}
+
+/** Read the trailers written by snapshotMessage (and importedMessage) from a commit body. */
+export function parseSnapshotMeta(body: string): SnapshotMeta {
+  const trailers = new Map([...body.matchAll(TRAILER)].map((match) => [match[1]!, match[2]!.trim()]));
+  const size = trailers.has("Size") ? parseInt(trailers.get("Size")!, 10) : NaN;
+  const trigger = trailers.get("Trigger") as SnapshotTrigger | undefined;
+  return {
+    source: trailers.get("Source") ?? null,
+    size: Number.isNaN(size) ? null : size,
+    trigger: trigger && TRIGGERS.includes(trigger) ? trigger : null,
+    host: trailers.get("Host") ?? null,
+    pointer: trailers.get("Pointer") === "true",
+  };
+}
+
+// Titles come from the staged change, e.g. the first edited heading of a Markdown file.
+async function snapshotTitle(git: SimpleGit, sourceFilePath: string, fileName: string, size: number, pointer: boolean): Promise<string> {
+  const head = readHead(sourceFilePath);
+  // The staged diff of a pointer only shows hashes changing.
+  if (pointer || isBinary(head)) return `${describeType(head)}, ${formatBytes(size)}`;
+  const parsed = parseDiff(await git.diff(["--cached", "--", fileName]));
+  if (parsed.hunks.length === 0) return formatBytes(size);
+  return summarizeChange(parsed, [".md", ".markdown", ".mdx"].includes(extname(fileName).toLowerCase()));
+}
+
+/** The source commit an imported snapshot was replayed from, or null for ordinary snapshots. */
+export function importedFrom(message: string): string | null {
+  return IMPORTED_SUBJECT.test(message) ? (message.match(IMPORTED_FROM)?.[1] ?? null) : null;
+}
+
 async function getGit(slug: string): Promise<SimpleGit> {
   const repoPath = ensureRepoDir(slug);
   const git = simpleGit(repoPath);
@@ -30,34 +154,211 @@ async function getGit(slug: string): Promise<SimpleGit> {
   return git;
 }
 
-export async function snapshot(slug: string, sourceFilePath: string): Promise<string | null> {
-  const git = await getGit(slug);
-  const repoPath = getRepoPath(slug);
-  const fileName = basename(sourceFilePath);
-  const destPath = join(repoPath, fileName);
+/** Create the internal repo for `slug` if it doesn't exist yet. */
+export async function ensureRepo(slug: string): Promise<void> {
+  await getGit(slug);
+}
+
+export interface SnapshotOptions {
+  trigger?: SnapshotTrigger; // default "manual"
+  ignoreWhitespace?: boolean; // no snapshot when only whitespace or blank lines changed
+  settings?: ResolvedSnapshotSettings; // the file's settings, read from the config when omitted
+  date?: Date; // when the change was made, if not now, e.g. the file's mtime
+}
+
+// The file's own settings, or the defaults when its project isn't configured.
+function configuredSettings(slug: string, fileName: string): ResolvedSnapshotSettings {
+  try {
+    const project = loadConfig().projects.find((p) => p.slug === slug);
+    return project ? getSnapshotSettings(project, fileName) : SNAPSHOT_DEFAULTS;
+  } catch {
+    return SNAPSHOT_DEFAULTS; // a broken config is reported by whoever loads it next
+  }
+}
+
+/**
+ * Whether the settings have a file committed as is, as a pointer, or not at
+ * all (over maxFileSize, or binary with binaryFiles "skip"). Null when it can't be read.
+ */
+function storageFor(sourceFilePath: string, settings: ResolvedSnapshotSettings): "store" | "pointer" | "skip" | null {
+  let size: number;
+  let binary: boolean;
+  try {
+    size = statSync(sourceFilePath).size;
+    binary = isBinary(readHead(sourceFilePath));
+  } catch {
+    return null;
+  }
+  if (settings.maxFileSize !== null && size > settings.maxFileSize) return "skip";
+  if (binary && settings.binaryFiles === "skip") return "skip";
+  if (binary && settings.binaryFiles === "pointer") return "pointer";
+  return settings.pointerAbove !== null && size > settings.pointerAbove ? "pointer" : "store";
+}
+
+/**
+ * Commit the file's current contents, as its snapshot settings say. Null when
+ * nothing changed or the settings skip the file.
+ */
+export async function snapshot(
+  slug: string,
+  sourceFilePath: string,
+  fileName: string = basename(sourceFilePath),
+  options: SnapshotOptions = {},
+): Promise<string | null> {
+  return withRepoLock(slug, async () => {
+    const git = await getGit(slug);
+    const repoPath = getRepoPath(slug);
+    const destPath = join(repoPath, fileName);
+
+    let storage = storageFor(sourceFilePath, options.settings ?? configuredSettings(slug, fileName));
+    if (storage === null) return null;
+    // A checkpoint is never skipped, or its restore couldn't be undone.
+    if (storage === "skip") {
+      if (options.trigger !== "restore") return null;
+      storage = "pointer";
+    }
+
+    mkdirSync(dirname(destPath), { recursive: true });
+    if (storage === "pointer") writeFileSync(destPath, formatPointer(storeObject(slug, readFileSync(sourceFilePath))));
+    else copyFileSync(sourceFilePath, destPath);
+    await git.add(fileName);
+
+    const status = await git.status([fileName]);
+    if (status.staged.length === 0) return null; // no changes
+    if (options.ignoreWhitespace) {
+      const diff = await git.diff(["--cached", "--ignore-all-space", "--ignore-blank-lines", "--", fileName]);
+      if (!diff.trim()) {
+        // Leave it unstaged; the next real change is committed along with it.
+        await git.raw(["reset", "-q", "--", fileName]);
+        return null;
+      }
+    }
 
-  if (!existsSync(sourceFilePath)) return null;
+    const size = statSync(sourceFilePath).size;
+    const title = await snapshotTitle(git, sourceFilePath, fileName, size, storage === "pointer");
+    return commitSnapshot(git, slug, [fileName], title, resolve(sourceFilePath), size, {
+      trigger: options.trigger ?? "manual",
+      pointer: storage === "pointer",
+      date: options.date,
+    });
+  });
+}
 
-  copyFileSync(sourceFilePath, destPath);
-  await git.add(fileName);
+/** Record that a watched file was deleted from disk. Null when it had no snapshots. */
+export async function snapshotDeletion(
+  slug: string,
+  sourceFilePath: string,
+  fileName: string,
+  trigger: SnapshotTrigger = "watch",
+): Promise<string | null> {
+  return withRepoLock(slug, async () => {
+    const git = await getGit(slug);
+    if (!(await isTracked(git, fileName))) return null;
+    // -f: a whitespace-only change may have been left unstaged.
+    await git.raw(["rm", "-q", "-f", "--", fileName]);
+    return commitSnapshot(git, slug, [fileName], "deleted", resolve(sourceFilePath), 0, { trigger });
+  });
+}
 
-  const status = await git.status();
-  if (status.staged.length === 0) return null; // no changes
+/**
+ * Move a file's history to `newName` after it was renamed on disk. The commit
+ * is a plain git rename, so getLog and the functions below follow it back.
+ */
+export async function snapshotRename(
+  slug: string,
+  sourceFilePath: string,
+  oldName: string,
+  newName: string,
+): Promise<string | null> {
+  return withRepoLock(slug, async () => {
+    const git = await getGit(slug);
+    if (!(await isTracked(git, oldName))) return null;
+    const pointer = await storedAsPointer(git, "HEAD", oldName);
+    mkdirSync(dirname(join(getRepoPath(slug), newName)), { recursive: true });
+    await git.raw(["mv", "-f", "--", oldName, newName]);
+    const size = statSync(sourceFilePath).size;
+    return commitSnapshot(git, slug, [oldName, newName], `renamed from ${oldName}`, resolve(sourceFilePath), size, {
+      trigger: "watch",
+      pointer,
+    });
+  });
+}
+
+async function isTracked(git: SimpleGit, fileName: string): Promise<boolean> {
+  try {
+    await git.raw(["ls-files", "--error-unmatch", "--", fileName]);
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-  const result = await git.commit(`[${fileName}] auto-snapshot`);
-  return result.commit || null;
+// Commit what is staged for `paths` (the last one being the file's current
+// name) and pass the snapshot on to the event log and hooks.
+async function commitSnapshot(
+  git: SimpleGit,
+  slug: string,
+  paths: string[],
+  title: string,
+  source: string,
+  size: number,
+  { trigger, pointer = false, date }: { trigger: SnapshotTrigger; pointer?: boolean; date?: Date },
+): Promise<string | null> {
+  const fileName = paths[paths.length - 1]!;
+  const meta: SnapshotMeta = { source, size, trigger, host: hostname(), pointer };
+  if (date) {
+    // Never before the latest snapshot, so the history stays in date order.
+    const head = await git.raw(["log", "-1", "--format=%ct"]).catch(() => "");
+    const seconds = Math.max(Math.floor(date.getTime() / 1000), parseInt(head, 10) || 0);
+    git.env({ ...process.env, GIT_AUTHOR_DATE: `${seconds} +0000`, GIT_COMMITTER_DATE: `${seconds} +0000` });
+  }
+  const result = await git.commit(snapshotMessage(fileName, title, meta), paths);
+  if (!result.commit) return null;
+  // simple-git reports an abbreviated hash; the event log and hooks get full ones, as restores do.
+  const hash = (await git.revparse([result.commit])).trim();
+  const { insertions, deletions } = result.summary;
+  const event: HookEvent = { slug, fileName, path: source, hash, title, insertions, deletions, trigger };
+  recordEvent({ event: "snapshot", ...event });
+  runHooks(event);
+  return result.commit;
 }
 
-export async function getLog(slug: string, fileName?: string): Promise<SnapshotInfo[]> {
+/**
+ * The path `fileName` had at `rev`: itself, or an earlier name when the file
+ * has been renamed since. Snapshots are linear, so the newest commit of the
+ * file's followed history that `rev` contains has the right name.
+ */
+async function pathAt(git: SimpleGit, rev: string, fileName: string): Promise<string> {
+  try {
+    await git.raw(["cat-file", "-e", `${rev}:${fileName}`]);
+    return fileName;
+  } catch {
+    // Renamed since, deleted, or not there yet.
+  }
+  try {
+    const reachable = new Set((await git.raw(["rev-list", rev])).split("\n"));
+    const log = await git.raw(["log", "--follow", "--name-only", "--format=%x1e%H", "--", fileName]);
+    for (const entry of log.split("\x1e")) {
+      const [hash, name] = entry.split("\n").filter(Boolean);
+      if (hash && name && reachable.has(hash)) return name;
+    }
+  } catch {
+    // Unknown revision.
+  }
+  return fileName;
+}
+
+export async function getLog(slug: string, fileName?: string, filter: string[] = []): Promise<SnapshotInfo[]> {
   const git = await getGit(slug);
   const repoPath = getRepoPath(slug);
 
   try {
-    const args: string[] = ["--stat", "--stat-width=200"];
+    const args: string[] = ["--stat", "--stat-width=200", ...filter];
     if (fileName) {
       args.push("--follow", "--", fileName);
     }
     const log: LogResult<DefaultLogFields> = await git.log(args);
+    const labels = await getLabels(slug);
 
     return log.all.map((entry) => {
       const diff = entry.diff;
@@ -80,8 +381,12 @@ export async function getLog(slug: string, fileName?: string): Promise<SnapshotI
         hash: entry.hash,
         date: new Date(entry.date),
         message: entry.message,
+        title: entry.message.replace(SUBJECT_PREFIX, ""),
+        meta: parseSnapshotMeta(entry.body),
         insertions,
         deletions,
+        labels: labels.get(entry.hash) ?? [],
+        imported: IMPORTED_SUBJECT.test(entry.message),
       };
     });
   } catch {
@@ -89,46 +394,367 @@ export async function getLog(slug: string, fileName?: string): Promise<SnapshotI
   }
 }
 
-export async function getDiff(slug: string, hash: string, fileName?: string): Promise<string> {
+export interface SearchQuery {
+  text: string;
+  regex: boolean;
+}
+
+/** Parse "/pattern/" as a regex search and anything else as literal text. */
+export function parseSearchQuery(input: string): SearchQuery {
+  const match = input.match(/^\/(.+)\/$/);
+  return match ? { text: match[1]!, regex: true } : { text: input, regex: false };
+}
+
+/**
+ * Matches text the way searchLog does, for finding the hunk to open. Regexes
+ * are run as JavaScript ones, which agree with git's for most patterns; one
+ * JavaScript can't compile matches nothing.
+ */
+export function searchMatcher(query: SearchQuery): (text: string) => boolean {
+  if (!query.regex) return (text) => text.includes(query.text);
+  let re: RegExp;
+  try {
+    re = new RegExp(query.text);
+  } catch {
+    return () => false;
+  }
+  return (text) => re.test(text);
+}
+
+/**
+ * Git's complaint about a search, e.g. a regex that isn't valid POSIX extended
+ * syntax, or null when it can be run.
+ */
+export async function checkSearchQuery(slug: string, query: SearchQuery): Promise<string | null> {
+  if (!query.regex) return null;
   const git = await getGit(slug);
   try {
-    const args = [`${hash}^`, hash];
-    if (fileName) args.push("--", fileName);
+    await git.raw(["log", "-1", "--format=", `-G${query.text}`]);
+    return null;
+  } catch (err) {
+    const message = (err as Error).message.trim().split("\n")[0]!;
+    return message.replace(/^fatal: /, "");
+  }
+}
+
+/**
+ * Snapshots where the query was added or removed: git's pickaxe (-S) for
+ * literal text, and -G (changed lines matching) for regexes.
+ */
+export async function searchLog(slug: string, fileName: string, query: SearchQuery): Promise<SnapshotInfo[]> {
+  const filter = query.regex ? [`-G${query.text}`] : [`-S${query.text}`];
+  return getLog(slug, fileName, filter);
+}
+
+/** Changes introduced by `hash`, or everything between `base` and `hash` when a base is given. */
+export async function getDiff(slug: string, hash: string, fileName?: string, base?: string): Promise<string> {
+  const git = await getGit(slug);
+  // Both ends' names, so a rename in between shows as one rather than as a new file.
+  const paths = async (from: string) =>
+    fileName ? ["-M", "--", ...new Set([await pathAt(git, from, fileName), await pathAt(git, hash, fileName)])] : [];
+  if (base) {
+    try {
+      const args = [base, hash, ...(await paths(base))];
+      const diff = await git.diff(args);
+      return diff || "(no changes)";
+    } catch {
+      return "(no diff available)";
+    }
+  }
+  try {
+    const args = [`${hash}^`, hash, ...(await paths(`${hash}^`))];
     const diff = await git.diff(args);
     return diff || "(no diff available)";
   } catch {
-    // First commit — diff against empty tree
+    // The first snapshot has no parent, so show its own patch. Git versions
+    // differ on whether the well-known empty tree hash can be diffed against.
     try {
-      const args = ["4b825dc642cb6eb9a060e54bf899d8b2da2e7862", hash];
-      if (fileName) args.push("--", fileName);
-      const diff = await git.diff(args);
-      return diff || "(initial snapshot)";
+      const args = ["--format=", "--patch", hash];
+      if (fileName) args.push("--", await pathAt(git, hash, fileName));
+      const diff = await git.show(args);
+      return diff.replace(/^\n+/, "") || "(initial snapshot)";
     } catch {
       return "(no diff available)";
     }
   }
 }
 
-export async function getContent(slug: string, hash: string, fileName: string): Promise<string> {
+/** Diff a snapshot against the file's current contents on disk. */
+export async function getWorkingDiff(slug: string, hash: string, fileName: string, livePath: string): Promise<string> {
+  if (!existsSync(livePath)) return "(file no longer exists on disk)";
   const git = await getGit(slug);
+  const stored = await readStoredContent(slug, hash, fileName);
+  if (!stored) return "(no diff available)";
+  // Compare two files with --no-index, so previews never add objects to the repo.
+  const tmpDir = mkdtempSync(join(getRepoPath(slug), ".git", "diffden-diff-"));
+  const snapshotPath = join(tmpDir, "snapshot");
   try {
-    return await git.show([`${hash}:${fileName}`]);
+    writeFileSync(snapshotPath, stored.content);
+    const diff = await git.raw(["-c", "core.quotePath=false", "diff", "--no-index", "--", snapshotPath, livePath]);
+    if (!diff) return "(no changes)";
+    return nameDiffSides(diff, snapshotPath, livePath, fileName);
   } catch {
-    return "(content not available)";
+    return "(no diff available)";
+  } finally {
+    rmSync(tmpDir, { recursive: true, force: true });
   }
 }
 
-export async function restore(slug: string, hash: string, fileName: string, destPath: string): Promise<boolean> {
+// --no-index headers name the files compared (without their leading slash);
+// show both sides as the watched file instead.
+function nameDiffSides(diff: string, before: string, after: string, fileName: string): string {
+  const gitPath = (path: string) => toPosix(path).replace(/^\//, "");
+  const hunksAt = diff.search(/^@@/m);
+  const header = hunksAt < 0 ? diff : diff.slice(0, hunksAt);
+  const renamed = header
+    .split(quoteDiffPath(`a/${gitPath(before)}`))
+    .join(quoteDiffPath(`a/${fileName}`))
+    .split(quoteDiffPath(`b/${gitPath(after)}`))
+    .join(quoteDiffPath(`b/${fileName}`));
+  return hunksAt < 0 ? renamed : renamed + diff.slice(hunksAt);
+}
+
+const C_ESCAPES: Record<string, string> = { "\x07": "a", "\b": "b", "\t": "t", "\n": "n", "\v": "v", "\f": "f", "\r": "r", '"': '"', "\\": "\\" };
+
+// How git writes a path in diff headers with core.quotePath off: in C-style
+// quotes when it holds a control character, a quote or a backslash.
+function quoteDiffPath(path: string): string {
+  if (!/[\x00-\x1f"\\\x7f]/.test(path)) return path;
+  const escaped = path.replace(/[\x00-\x1f"\\\x7f]/g, (ch) =>
+    ch in C_ESCAPES ? `\\${C_ESCAPES[ch]}` : `\\${ch.charCodeAt(0).toString(8).padStart(3, "0")}`,
+  );
+  return `"${escaped}"`;
+}
+
+export interface StoredContent {
+  content: Buffer;
+  pointer: Pointer | null; // set when the snapshot committed a pointer rather than the contents
+}
+
+// The commit that last wrote `path` as of `rev` says whether it committed a pointer.
+async function storedAsPointer(git: SimpleGit, rev: string, path: string): Promise<boolean> {
   try {
-    const content = await getContent(slug, hash, fileName);
-    if (content === "(content not available)") return false;
-    writeFileSync(destPath, content);
-    return true;
+    const body = await git.raw(["log", "-1", "--format=%B", rev, "--", path]);
+    return parseSnapshotMeta(body).pointer;
   } catch {
     return false;
   }
 }
 
+/** A file's bytes at a snapshot, following pointers to contents kept outside history. */
+export async function readStoredContent(slug: string, hash: string, fileName: string): Promise<StoredContent | null> {
+  const git = await getGit(slug);
+  let path: string;
+  let blob: Buffer;
+  try {
+    path = await pathAt(git, hash, fileName);
+    blob = await git.showBuffer([`${hash}:${path}`]);
+  } catch {
+    return null;
+  }
+  const pointer = (await storedAsPointer(git, hash, path)) ? parsePointer(blob) : null;
+  if (!pointer) return { content: blob, pointer: null };
+  const content = readObject(slug, pointer);
+  return content ? { content, pointer } : null;
+}
+
+/**
+ * Metadata and byte-level changes for a snapshot that is binary, too large to
+ * preview or stored as a pointer; null when it can be shown as text. Changes
+ * are measured from `base` (default the parent), or towards the live file.
+ */
+export async function getFileSummary(
+  slug: string,
+  hash: string,
+  fileName: string,
+  against: { base?: string; livePath?: string } = {},
+): Promise<FileSummary | null> {
+  const stored = await readStoredContent(slug, hash, fileName);
+  if (!stored || (!stored.pointer && !needsSummary(stored.content))) return null;
+
+  let changes;
+  if (against.livePath) {
+    const live = existsSync(against.livePath) ? readFileSync(against.livePath) : Buffer.alloc(0);
+    changes = compareBytes(stored.content, live);
+  } else {
+    const before = await readStoredContent(slug, against.base ?? `${hash}^`, fileName);
+    changes = compareBytes(before?.content ?? null, stored.content);
+  }
+  return { fileName, hash, content: stored.content, pointer: stored.pointer, changes };
+}
+
+export async function getContent(slug: string, hash: string, fileName: string): Promise<string> {
+  const stored = await readStoredContent(slug, hash, fileName);
+  return stored ? stored.content.toString() : "(content not available)";
+}
+
+export interface BlameLine {
+  hash: string; // snapshot that last changed the line
+  date: Date;
+  labels: SnapshotLabel[];
+  text: string;
+}
+
+/** Annotate each line of a snapshot's content with the snapshot that last changed it. */
+export async function getBlame(slug: string, hash: string, fileName: string): Promise<BlameLine[]> {
+  const git = await getGit(slug);
+  let out: string;
+  try {
+    out = await git.raw(["blame", "--line-porcelain", hash, "--", await pathAt(git, hash, fileName)]);
+  } catch {
+    return [];
+  }
+
+  const labels = await getLabels(slug);
+  const lines: BlameLine[] = [];
+  let lineHash = "";
+  let time = 0;
+  for (const line of out.split("\n")) {
+    if (line.startsWith("\t")) {
+      lines.push({ hash: lineHash, date: new Date(time * 1000), labels: labels.get(lineHash) ?? [], text: line.slice(1) });
+    } else if (line.startsWith("author-time ")) {
+      time = parseInt(line.slice("author-time ".length), 10);
+    } else if (/^[0-9a-f]{40} /.test(line)) {
+      lineHash = line.slice(0, 40);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Snapshot a live file right away, before something overwrites it. Returns the
+ * hash of the snapshot holding its current contents, or null if it doesn't exist.
+ */
+export async function checkpointFile(slug: string, livePath: string, fileName: string): Promise<string | null> {
+  if (!existsSync(livePath)) return null;
+  const created = await snapshot(slug, livePath, fileName, { trigger: "restore" });
+  // No commit means the file already matches its latest snapshot.
+  if (created) return resolveRevision(slug, created);
+  return (await getLatestSnapshot(slug, fileName))?.hash ?? null;
+}
+
+export interface RestoreResult {
+  checkpoint: string | null; // snapshot holding the overwritten contents, if any
+}
+
+/**
+ * Write a snapshot's content to `destPath`. With `checkpoint`, whatever is at
+ * `destPath` is snapshotted first (even between debounces) so the restore can
+ * be undone. Returns null when nothing was written.
+ */
+export async function restore(
+  slug: string,
+  hash: string,
+  fileName: string,
+  destPath: string,
+  options: { checkpoint?: boolean } = {},
+): Promise<RestoreResult | null> {
+  try {
+    const stored = await readStoredContent(slug, hash, fileName);
+    if (!stored) return null;
+
+    const checkpoint = options.checkpoint ? await checkpointFile(slug, destPath, fileName) : null;
+    mkdirSync(dirname(destPath), { recursive: true });
+    writeFileSync(destPath, stored.content);
+    recordEvent({ event: "restore", slug, fileName, path: resolve(destPath), hash, checkpoint });
+    return { checkpoint };
+  } catch {
+    return null;
+  }
+}
+
+export interface HunkRestoreResult extends RestoreResult {
+  applied: number[];
+  conflicts: number[];
+}
+
+/**
+ * Undo some of a diff's hunks in the live file, checkpointing it first.
+ * Hunks that no longer match the file are reported as conflicts; nothing is
+ * written when every hunk conflicts. Returns null if the file can't be updated.
+ */
+export async function restoreHunks(
+  slug: string,
+  fileName: string,
+  livePath: string,
+  parsed: ParsedDiff,
+  indexes: number[],
+): Promise<HunkRestoreResult | null> {
+  if (!existsSync(livePath)) return null;
+  try {
+    const result = reverseHunks(readFileSync(livePath, "utf-8"), parsed, indexes);
+    if (result.applied.length === 0) return { checkpoint: null, applied: [], conflicts: result.conflicts };
+    const checkpoint = await checkpointFile(slug, livePath, fileName);
+    writeFileSync(livePath, result.content);
+    recordEvent({ event: "restore", slug, fileName, path: resolve(livePath), hash: null, hunks: result.applied, checkpoint });
+    return { checkpoint, applied: result.applied, conflicts: result.conflicts };
+  } catch {
+    return null;
+  }
+}
+
+/** Resolve a hash, git revision or label name to a full commit hash. */
+export async function resolveRevision(slug: string, rev: string): Promise<string | null> {
+  const git = await getGit(slug);
+  for (const candidate of [rev, `refs/tags/${LABEL_PREFIX}${rev}`]) {
+    try {
+      const hash = await git.revparse(["--verify", "--quiet", `${candidate}^{commit}`]);
+      if (hash.trim()) return hash.trim();
+    } catch {
+      // try the next form
+    }
+  }
+  return null;
+}
+
+export function isValidLabelName(name: string): boolean {
+  return LABEL_NAME.test(name) && !name.endsWith(".lock") && !name.includes("..");
+}
+
+/** Labels in the repo, keyed by the commit they point at. */
+export async function getLabels(slug: string): Promise<Map<string, SnapshotLabel[]>> {
+  const git = await getGit(slug);
+  const labels = new Map<string, SnapshotLabel[]>();
+  try {
+    const out = await git.raw([
+      "for-each-ref",
+      `refs/tags/${LABEL_PREFIX}`,
+      "--format=%(refname:strip=3)%1f%(*objectname)%1f%(contents)%1e",
+    ]);
+    for (const record of out.split("\x1e")) {
+      const [name, hash, note] = record.replace(/^\n/, "").split("\x1f");
+      if (!name || !hash) continue;
+      const list = labels.get(hash) ?? [];
+      list.push({ name, note: (note ?? "").trim() });
+      labels.set(hash, list);
+    }
+  } catch {
+    // no tags yet
+  }
+  return labels;
+}
+
+/** Attach (or move) a label with an optional note to a snapshot. */
+export async function addLabel(slug: string, hash: string, name: string, note = ""): Promise<void> {
+  if (!isValidLabelName(name)) throw new Error(`Invalid label name: ${name}`);
+  await withRepoLock(slug, async () => {
+    const git = await getGit(slug);
+    await git.raw(["tag", "--force", "--annotate", `${LABEL_PREFIX}${name}`, "--message", note, hash]);
+  });
+}
+
+export async function removeLabel(slug: string, name: string): Promise<boolean> {
+  return withRepoLock(slug, async () => {
+    const git = await getGit(slug);
+    try {
+      await git.raw(["tag", "--delete", `${LABEL_PREFIX}${name}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
 export async function getSnapshotCount(slug: string, fileName?: string): Promise<number> {
   const log = await getLog(slug, fileName);
   return log.length;
@@ -138,3 +764,29 @@ export async function getLatestSnapshot(slug: string, fileName?: string): Promis
   const log = await getLog(slug, fileName);
   return log[0] ?? null;
 }
+
+/** Files whose history ends in a deletion: removed from the repo and not since recreated. */
+export async function getDeletedFiles(slug: string): Promise<string[]> {
+  const git = await getGit(slug);
+  try {
+    // -M so a renamed file counts as moved, not deleted.
+    const deleted = await git.raw(["-c", "core.quotePath=false", "log", "-M", "--diff-filter=D", "--name-only", "--format="]);
+    const tracked = new Set((await git.raw(["-c", "core.quotePath=false", "ls-files"])).split("\n"));
+    return [...new Set(deleted.split("\n"))].filter((fileName) => fileName && !tracked.has(fileName)).sort();
+  } catch {
+    return []; // no snapshots yet
+  }
+}
+
+/**
+ * listProjectFiles plus files the project's patterns matched before they were
+ * deleted, which no longer turn up on disk but still have history to show.
+ */
+export async function listProjectFilesWithDeleted(project: ProjectConfig): Promise<string[]> {
+  const files = listProjectFiles(project);
+  if (!project.patterns?.length) return files;
+  const deleted = (await getDeletedFiles(project.slug)).filter(
+    (fileName) => matchesAny(fileName, project.patterns!) && !matchesAny(fileName, project.ignore ?? []),
+  );
+  return [...new Set([...files, ...deleted])];
+}
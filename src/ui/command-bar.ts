@@ -16,7 +16,7 @@ export function createCommandBar(ctx: RenderContext): CommandBar {
   });
 
   const hints = new TextRenderable(ctx, {
-    content: "[j/k] nav  [Enter/l] select  [Esc/h] back  [Tab] diff/full  [r] restore  [o] expand  [/] cmd  [q] quit",
+    content: "[j/k] nav  [Enter/l] select  [Esc/h] back  [Tab] diff/full/blame  [r] restore  [o] expand  [/] cmd  [q] quit",
     fg: "#666680",
     bg: "#16213e",
     flexGrow: 1,
@@ -47,11 +47,11 @@ export function createCommandBar(ctx: RenderContext): CommandBar {
   return { container, input, hints, status };
 }
 
-export function showInput(bar: CommandBar) {
+export function showInput(bar: CommandBar, prefill = "/") {
   bar.hints.visible = false;
   bar.status.visible = false;
   bar.input.visible = true;
-  bar.input.value = "/";
+  bar.input.value = prefill;
   bar.input.focus();
 }
 
@@ -81,10 +81,14 @@ export function updateHints(bar: CommandBar, focusedColumn: number) {
       bar.hints.content = `${nav}  ${select}  ${back}  [o] expand  ${base}`;
       break;
     case 2:
-      bar.hints.content = `${nav}  ${select}  ${back}  [Tab] diff/full  [r] restore  [o] expand  ${base}`;
+      bar.hints.content = `${nav}  ${select}  ${back}  [Tab] diff/full/blame  [b] base  [w] vs live  [n] label  [r] restore  [p] play  [o] expand  ${base}`;
       break;
     case 3:
-      bar.hints.content = `${back}  [Tab] diff/full  [j/k] scroll  [o] expand  ${base}`;
+      bar.hints.content = `${back}  [Tab] diff/full/blame  [j/k] scroll  [s] split  [d] words  [[ ]] hunks  [v] range  [u] revert hunk  [p] play  [o] expand  ${base}`;
       break;
   }
 }
+
+export function showPlaybackHints(bar: CommandBar) {
+  bar.hints.content = "[Space] pause  [h/l] step  [[ ]] skip  [g/G] first/last  [+/-] speed  [p/Esc] stop  [q] quit";
+}
@@ -5,14 +5,15 @@ export interface FileItem {
   fileName: string;
   snapshotCount: number;
   lastChanged: Date | null;
+  missing: boolean; // deleted from disk since it was watched
 }
 
 function formatOption(item: FileItem): SelectOption {
   const count = `${item.snapshotCount} snap${item.snapshotCount !== 1 ? "s" : ""}`;
   const time = item.lastChanged ? relativeTime(item.lastChanged) : "no snapshots";
   return {
-    name: item.fileName,
-    description: `${count} · ${time}`,
+    name: item.missing ? `✕ ${item.fileName}` : item.fileName,
+    description: item.missing ? `missing · ${count} · ${time}` : `${count} · ${time}`,
     value: item,
   };
 }
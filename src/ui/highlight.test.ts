@@ -0,0 +1,22 @@
+import { describe, expect, test } from "bun:test";
+import { TreeSitterClient } from "@opentui/core";
+import { filetypeFor, highlightClient } from "./highlight.ts";
+
+describe("highlightClient", () => {
+  test("answers filetypes without a bundled grammar with the regexes", async () => {
+    expect(filetypeFor("config.yaml")).toBe("yaml");
+    const { highlights } = await highlightClient.highlightOnce("name: diffden # app\n", "yaml");
+    expect(highlights).toEqual([
+      [0, 4, "key"],
+      [13, 19, "comment"],
+    ]);
+    expect(highlightClient.isInitialized()).toBe(false);
+  });
+
+  test("is opentui's tree-sitter client for the grammars it bundles", async () => {
+    expect(highlightClient).toBeInstanceOf(TreeSitterClient);
+    expect(filetypeFor("index.ts")).toBe("typescript");
+    const { highlights } = await highlightClient.highlightOnce("const x = 1;\n", "typescript");
+    expect(highlights?.some(([start, end, group]) => start === 0 && end === 5 && group.startsWith("keyword"))).toBe(true);
+  });
+});
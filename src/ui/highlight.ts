@@ -0,0 +1,250 @@
+import { getDataPaths, RGBA, SyntaxStyle, TreeSitterClient, type SimpleHighlight } from "@opentui/core";
+import { extname } from "path";
+
+// Highlighting chosen by file extension: opentui's bundled tree-sitter grammars
+// where it has one, regexes for everything else (JSON, YAML, most languages).
+
+type Highlight = [start: number, end: number, group: string];
+
+type TreeSitterFiletype = "typescript" | "javascript" | "markdown" | "zig";
+type RegexFiletype = "markdown" | "json" | "yaml" | "code" | "script";
+type Filetype = TreeSitterFiletype | RegexFiletype;
+
+const FILETYPES: Record<string, Filetype> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".mdx": "markdown",
+  ".json": "json",
+  ".jsonc": "json",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".ts": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".js": "javascript",
+  ".jsx": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".zig": "zig",
+  // C-style comments
+  ".tsx": "code",
+  ".go": "code",
+  ".rs": "code",
+  ".java": "code",
+  ".kt": "code",
+  ".swift": "code",
+  ".c": "code",
+  ".h": "code",
+  ".cpp": "code",
+  ".cs": "code",
+  ".css": "code",
+  // "#" comments
+  ".py": "script",
+  ".rb": "script",
+  ".sh": "script",
+  ".bash": "script",
+  ".zsh": "script",
+  ".toml": "script",
+};
+
+// What the regexes use when tree-sitter can't highlight one of its filetypes.
+const REGEX_FALLBACK: Record<TreeSitterFiletype, RegexFiletype> = {
+  typescript: "code",
+  javascript: "code",
+  markdown: "markdown",
+  zig: "code",
+};
+
+const KEYWORDS = new Set(
+  (
+    "as async await break case catch class const continue def default defer del do elif else enum export extends " +
+    "fn for from func function go if impl import in interface is let match mod module new not or and package pub " +
+    "return self static struct super switch this throw trait try type typeof use var void while with yield lambda pass raise"
+  ).split(" "),
+);
+const CONSTANTS = new Set("true false null undefined nil None True False NaN Infinity".split(" "));
+
+const COLORS: Record<string, { fg: string; bold?: boolean; italic?: boolean }> = {
+  default: { fg: "#c0c0c0" },
+  keyword: { fg: "#c792ea" },
+  string: { fg: "#c3e88d" },
+  number: { fg: "#f78c6c" },
+  constant: { fg: "#f78c6c" },
+  comment: { fg: "#6d7a99", italic: true },
+  key: { fg: "#82aaff" },
+  heading: { fg: "#00d2ff", bold: true },
+  list: { fg: "#ffcb6b" },
+  quote: { fg: "#8a93b0", italic: true },
+  code: { fg: "#f0a0c0" },
+  fence: { fg: "#6d7a99" },
+  strong: { fg: "#e0e0e0", bold: true },
+  link: { fg: "#82aaff" },
+  // tree-sitter captures; "keyword.import" and the like fall back to "keyword"
+  boolean: { fg: "#f78c6c" },
+  function: { fg: "#82aaff" },
+  type: { fg: "#ffcb6b" },
+  constructor: { fg: "#ffcb6b" },
+  property: { fg: "#b2ccd6" },
+  operator: { fg: "#89ddff" },
+  "markup.heading": { fg: "#00d2ff", bold: true },
+  ...Object.fromEntries([1, 2, 3, 4, 5, 6].map((level) => [`markup.heading.${level}`, { fg: "#00d2ff", bold: true }])),
+  "markup.list": { fg: "#ffcb6b" },
+  "markup.quote": { fg: "#8a93b0", italic: true },
+  "markup.raw": { fg: "#f0a0c0" },
+  "markup.raw.block": { fg: "#f0a0c0" },
+  "markup.strong": { fg: "#e0e0e0", bold: true },
+  "markup.italic": { fg: "#e0e0e0", italic: true },
+  "markup.link": { fg: "#82aaff" },
+  "markup.link.label": { fg: "#82aaff" },
+  "markup.link.url": { fg: "#6d7a99" },
+};
+
+export function createSyntaxStyle(): SyntaxStyle {
+  const styles: Record<string, { fg: RGBA; bold?: boolean; italic?: boolean }> = {};
+  for (const [group, color] of Object.entries(COLORS)) {
+    styles[group] = { ...color, fg: RGBA.fromHex(color.fg) };
+  }
+  return SyntaxStyle.fromStyles(styles);
+}
+
+/** The filetype for a file name, or undefined to leave it plain. */
+export function filetypeFor(fileName: string | null): Filetype | undefined {
+  return fileName ? FILETYPES[extname(fileName).toLowerCase()] : undefined;
+}
+
+function scan(content: string, pattern: RegExp, offset: number, out: Highlight[], classify: (match: RegExpExecArray) => string | null) {
+  for (const match of content.matchAll(pattern)) {
+    const group = classify(match);
+    if (group) out.push([offset + match.index!, offset + match.index! + match[0].length, group]);
+  }
+}
+
+const CODE_TOKENS = /(\/\/[^\n]*|\/\*[\s\S]*?\*\/)|("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`)|(\b\d[\d_]*(?:\.\d+)?\b)|([A-Za-z_$][\w$]*)/g;
+const SCRIPT_TOKENS = /(#[^\n]*)|("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')|(\b\d[\d_]*(?:\.\d+)?\b)|([A-Za-z_][\w]*)/g;
+
+function classifyCode(match: RegExpExecArray): string | null {
+  if (match[1]) return "comment";
+  if (match[2]) return "string";
+  if (match[3]) return "number";
+  if (KEYWORDS.has(match[4]!)) return "keyword";
+  if (CONSTANTS.has(match[4]!)) return "constant";
+  return null;
+}
+
+const JSON_TOKENS = /("(?:[^"\\\n]|\\.)*")(?=(\s*:))?|(-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b)|\b(true|false|null)\b|(\/\/[^\n]*)/g;
+
+function classifyJson(match: RegExpExecArray): string | null {
+  if (match[1]) return match[2] ? "key" : "string";
+  if (match[3]) return "number";
+  if (match[4]) return "constant";
+  return "comment";
+}
+
+// Line-oriented languages: call `each` with every line and its offset in the content.
+function eachLine(content: string, each: (line: string, offset: number) => void) {
+  let offset = 0;
+  for (const line of content.split("\n")) {
+    each(line, offset);
+    offset += line.length + 1;
+  }
+}
+
+const YAML_KEY = /^(\s*(?:-\s+)?)([^\s#:][^#:]*?|"[^"]*"|'[^']*'):(?=\s|$)/;
+const YAML_VALUE = /("(?:[^"\\]|\\.)*"|'[^']*')|(-?\b\d+(?:\.\d+)?\b)|\b(true|false|null|yes|no|on|off)\b|(\s#.*$)/g;
+
+function highlightYaml(content: string, out: Highlight[]) {
+  eachLine(content, (line, offset) => {
+    if (/^\s*#/.test(line)) {
+      out.push([offset, offset + line.length, "comment"]);
+      return;
+    }
+    if (/^(---|\.\.\.)\s*$/.test(line)) {
+      out.push([offset, offset + line.length, "keyword"]);
+      return;
+    }
+    const dash = line.match(/^\s*-(?=\s|$)/);
+    if (dash) out.push([offset + dash[0].length - 1, offset + dash[0].length, "list"]);
+    let rest = 0;
+    const key = line.match(YAML_KEY);
+    if (key) {
+      out.push([offset + key[1]!.length, offset + key[1]!.length + key[2]!.length, "key"]);
+      rest = key[0].length;
+    }
+    scan(line.slice(rest), YAML_VALUE, offset + rest, out, (match) =>
+      match[1] ? "string" : match[2] ? "number" : match[3] ? "constant" : "comment",
+    );
+  });
+}
+
+const MD_INLINE = /(`[^`\n]+`)|(\*\*[^*\n]+\*\*|__[^_\n]+__)|(\[[^\]\n]+\]\([^)\n]+\))/g;
+
+function highlightMarkdown(content: string, out: Highlight[]) {
+  let fence: string | null = null;
+  eachLine(content, (line, offset) => {
+    const end = offset + line.length;
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fence !== null) {
+      const closes = fenceMatch !== null && fenceMatch[1]!.startsWith(fence);
+      out.push([offset, end, closes ? "fence" : "code"]);
+      if (closes) fence = null;
+      return;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1]!;
+      out.push([offset, end, "fence"]);
+      return;
+    }
+    if (/^#{1,6}(\s|$)/.test(line)) {
+      out.push([offset, end, "heading"]);
+      return;
+    }
+    if (/^\s*>/.test(line)) {
+      out.push([offset, end, "quote"]);
+      return;
+    }
+    const marker = line.match(/^(\s*)([-*+]|\d+[.)])(\s+\[[ xX]\])?(?=\s)/);
+    if (marker) out.push([offset + marker[1]!.length, offset + marker[0].length, "list"]);
+    scan(line, MD_INLINE, offset, out, (match) => (match[1] ? "code" : match[2] ? "strong" : "link"));
+  });
+}
+
+export function highlight(content: string, filetype: string): Highlight[] {
+  const out: Highlight[] = [];
+  switch (filetype) {
+    case "markdown":
+      highlightMarkdown(content, out);
+      break;
+    case "json":
+      scan(content, JSON_TOKENS, 0, out, classifyJson);
+      break;
+    case "yaml":
+      highlightYaml(content, out);
+      break;
+    case "code":
+      scan(content, CODE_TOKENS, 0, out, classifyCode);
+      break;
+    case "script":
+      scan(content, SCRIPT_TOKENS, 0, out, classifyCode);
+      break;
+  }
+  return out;
+}
+
+function isTreeSitterFiletype(filetype: string): filetype is TreeSitterFiletype {
+  return Object.hasOwn(REGEX_FALLBACK, filetype);
+}
+
+/** opentui's tree-sitter client, with the regexes answering for filetypes it has no grammar for. */
+class HighlightClient extends TreeSitterClient {
+  override async highlightOnce(
+    content: string,
+    filetype: string,
+  ): Promise<{ highlights?: SimpleHighlight[]; warning?: string; error?: string }> {
+    if (!isTreeSitterFiletype(filetype)) return { highlights: highlight(content, filetype) };
+    const result = await super.highlightOnce(content, filetype);
+    // A grammar that fails to load shouldn't leave the file unhighlighted.
+    return result.error ? { highlights: highlight(content, REGEX_FALLBACK[filetype]) } : result;
+  }
+}
+
+export const highlightClient = new HighlightClient({ dataPath: getDataPaths().globalDataPath });
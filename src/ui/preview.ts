@@ -1,16 +1,53 @@
 import {
   BoxRenderable,
+  CodeRenderable,
   DiffRenderable,
+  LineNumberRenderable,
+  SelectRenderable,
+  StyledText,
   TextRenderable,
+  fg,
+  bg,
   type RenderContext,
+  type TextChunk,
 } from "@opentui/core";
+import { relativeTime, padRight, truncate } from "../utils.ts";
+import { parseDiff, wordRows, type Segment, type SegmentKind, type WordRow } from "../patch.ts";
+import type { BlameLine } from "../tracker.ts";
+import type { DiffView } from "../config.ts";
+import { createSyntaxStyle, filetypeFor, highlightClient } from "./highlight.ts";
+
+export type PreviewMode = "diff" | "full" | "blame" | "playback";
+
+export interface DiffStyle {
+  view: DiffView;
+  words: boolean; // highlight changed words instead of whole lines
+}
 
 export interface PreviewPane {
   container: BoxRenderable;
-  fullText: TextRenderable;
+  fullText: CodeRenderable;
   diffText: DiffRenderable;
+  wordText: TextRenderable; // unified word diff
+  wordSplit: BoxRenderable; // side-by-side word diff
+  wordLeft: TextRenderable;
+  wordRight: TextRenderable;
+  blameList: SelectRenderable;
+  playText: CodeRenderable;
+  playView: LineNumberRenderable; // playText with a gutter marking changed lines
+  diffStyle: DiffStyle;
 }
 
+const WORD_COLORS: Record<SegmentKind, { fg: string; bg?: string }> = {
+  same: { fg: "#c0c0c0" },
+  added: { fg: "#39d98a", bg: "#1d4a33" },
+  removed: { fg: "#ff6b8a", bg: "#5a2430" },
+};
+const HUNK_HEADER_FG = "#6d7a99";
+const ROW_SIGNS: Record<WordRow["kind"], string> = { context: "  ", changed: "~ ", added: "+ ", removed: "- " };
+const PLAY_ADDED = { gutter: "#1d4a33", content: "#143022" };
+const PLAY_REMOVED = { gutter: "#5a2430" }; // only the gutter: the removed text is gone
+
 export function createPreview(ctx: RenderContext): PreviewPane {
   const container = new BoxRenderable(ctx, {
     width: "100%",
@@ -19,11 +56,16 @@ export function createPreview(ctx: RenderContext): PreviewPane {
     overflow: "hidden",
   });
 
-  const fullText = new TextRenderable(ctx, {
+  const syntaxStyle = createSyntaxStyle();
+
+  const fullText = new CodeRenderable(ctx, {
     content: "",
     fg: "#c0c0c0",
     bg: "#0d0d1a",
     wrapMode: "char",
+    syntaxStyle,
+    treeSitterClient: highlightClient,
+    conceal: false, // show Markdown as written, not with its markup hidden
     width: "100%",
     height: "100%",
   });
@@ -31,6 +73,8 @@ export function createPreview(ctx: RenderContext): PreviewPane {
   const diffText = new DiffRenderable(ctx, {
     diff: "",
     view: "unified",
+    syntaxStyle,
+    treeSitterClient: highlightClient,
     wrapMode: "char",
     showLineNumbers: true,
     lineNumberFg: "#6d7a99",
@@ -51,21 +95,198 @@ export function createPreview(ctx: RenderContext): PreviewPane {
     visible: false,
   });
 
+  const blameList = new SelectRenderable(ctx, {
+    showDescription: false,
+    showScrollIndicator: true,
+    backgroundColor: "#0d0d1a",
+    textColor: "#c0c0c0",
+    selectedBackgroundColor: "#16213e",
+    selectedTextColor: "#00d2ff",
+    focusedBackgroundColor: "#0d0d1a",
+    focusedTextColor: "#c0c0c0",
+    width: "100%",
+    height: "100%",
+    visible: false,
+  });
+
+  const wordText = new TextRenderable(ctx, {
+    content: "",
+    fg: "#c0c0c0",
+    bg: "#0d0d1a",
+    wrapMode: "word",
+    width: "100%",
+    height: "100%",
+    visible: false,
+  });
+
+  // Sides don't wrap, so rows stay aligned across the two columns.
+  const wordSplit = new BoxRenderable(ctx, {
+    flexDirection: "row",
+    width: "100%",
+    height: "100%",
+    visible: false,
+  });
+  const wordLeft = new TextRenderable(ctx, { content: "", fg: "#c0c0c0", bg: "#0d0d1a", wrapMode: "none", flexGrow: 1, flexBasis: 0 });
+  const divider = new BoxRenderable(ctx, { width: 1, height: "100%", backgroundColor: "#333355" });
+  const wordRight = new TextRenderable(ctx, { content: "", fg: "#c0c0c0", bg: "#0d0d1a", wrapMode: "none", flexGrow: 1, flexBasis: 0 });
+  wordSplit.add(wordLeft);
+  wordSplit.add(divider);
+  wordSplit.add(wordRight);
+
+  const playText = new CodeRenderable(ctx, {
+    content: "",
+    fg: "#c0c0c0",
+    bg: "#0d0d1a",
+    wrapMode: "char",
+    syntaxStyle,
+    treeSitterClient: highlightClient,
+    conceal: false,
+    flexGrow: 1,
+    height: "100%",
+  });
+  const playView = new LineNumberRenderable(ctx, {
+    target: playText,
+    fg: "#6d7a99",
+    bg: "#0f1524",
+    width: "100%",
+    height: "100%",
+    visible: false,
+  });
+
   container.add(fullText);
   container.add(diffText);
+  container.add(wordText);
+  container.add(wordSplit);
+  container.add(blameList);
+  container.add(playView);
 
-  return { container, fullText, diffText };
+  return {
+    container,
+    fullText,
+    diffText,
+    wordText,
+    wordSplit,
+    wordLeft,
+    wordRight,
+    blameList,
+    playText,
+    playView,
+    diffStyle: { view: "unified", words: false },
+  };
 }
 
-export function updatePreview(preview: PreviewPane, content: string, mode: "diff" | "full", fileName: string | null) {
-  if (mode === "diff") {
-    preview.diffText.diff = content;
-    preview.diffText.visible = true;
-    preview.fullText.visible = false;
+export function setDiffStyle(preview: PreviewPane, style: DiffStyle) {
+  preview.diffStyle = style;
+  preview.diffText.view = style.view;
+}
+
+/** Whichever renderable is showing the diff, the word diff ones when word diff is on. */
+export function shownDiff(preview: PreviewPane): DiffRenderable | TextRenderable | BoxRenderable {
+  if (!preview.diffStyle.words) return preview.diffText;
+  return preview.diffStyle.view === "split" ? preview.wordSplit : preview.wordText;
+}
+
+function showOnly(preview: PreviewPane, mode: PreviewMode) {
+  const words = mode === "diff" && preview.diffStyle.words;
+  preview.diffText.visible = mode === "diff" && !words;
+  preview.wordText.visible = words && preview.diffStyle.view === "unified";
+  preview.wordSplit.visible = words && preview.diffStyle.view === "split";
+  preview.fullText.visible = mode === "full";
+  preview.blameList.visible = mode === "blame";
+  preview.playView.visible = mode === "playback";
+}
+
+function segmentChunk(segment: Segment): TextChunk {
+  const colors = WORD_COLORS[segment.kind];
+  const chunk = fg(colors.fg)(segment.text);
+  return colors.bg ? bg(colors.bg)(chunk) : chunk;
+}
+
+// Word diffs are drawn from the line diff so hunk navigation sees the same hunks.
+function renderWordDiff(preview: PreviewPane, content: string) {
+  const parsed = parseDiff(content);
+  const unified: TextChunk[] = [];
+  const left: TextChunk[] = [];
+  const right: TextChunk[] = [];
+
+  if (parsed.hunks.length === 0) {
+    // A placeholder such as "(no changes)" rather than a diff.
+    preview.wordText.content = content;
+    preview.wordLeft.content = content;
+    preview.wordRight.content = "";
     return;
   }
 
-  preview.fullText.content = content;
-  preview.fullText.visible = true;
-  preview.diffText.visible = false;
+  for (const hunk of parsed.hunks) {
+    const header = fg(HUNK_HEADER_FG)(`${hunk.header}\n`);
+    unified.push(header);
+    left.push(header);
+    right.push(fg(HUNK_HEADER_FG)("\n"));
+    for (const row of wordRows(hunk)) {
+      unified.push(fg(WORD_COLORS.same.fg)(ROW_SIGNS[row.kind]), ...row.segments.map(segmentChunk), fg(WORD_COLORS.same.fg)("\n"));
+      left.push(...row.segments.filter((segment) => segment.kind !== "added").map(segmentChunk), fg(WORD_COLORS.same.fg)("\n"));
+      right.push(...row.segments.filter((segment) => segment.kind !== "removed").map(segmentChunk), fg(WORD_COLORS.same.fg)("\n"));
+    }
+  }
+  preview.wordText.content = new StyledText(unified);
+  preview.wordLeft.content = new StyledText(left);
+  preview.wordRight.content = new StyledText(right);
+}
+
+export function updatePreview(preview: PreviewPane, content: string, mode: PreviewMode, fileName: string | null) {
+  if (mode === "diff" && preview.diffStyle.words) {
+    renderWordDiff(preview, content);
+  } else if (mode === "diff") {
+    preview.diffText.filetype = filetypeFor(fileName);
+    preview.diffText.diff = content;
+  } else if (mode === "full") {
+    preview.fullText.filetype = filetypeFor(fileName) ?? "";
+    preview.fullText.content = content;
+  } else if (mode === "playback") {
+    updatePlayback(preview, content, fileName, { added: [], removedAt: [] });
+  } else {
+    // Blame rows are set by updateBlame; plain content can only clear them.
+    preview.blameList.options = [];
+  }
+  showOnly(preview, mode);
+}
+
+function formatBlameLine(line: BlameLine, previous: BlameLine | undefined): string {
+  // Only annotate the first line of each run from the same snapshot, like a gutter.
+  let gutter = "";
+  if (line.hash !== previous?.hash) {
+    const label = line.labels[0] ? `★${line.labels[0].name}` : line.hash.slice(0, 7);
+    gutter = `${relativeTime(line.date)} ${truncate(label, 10)}`;
+  }
+  return `${padRight(gutter, 20)} │ ${line.text}`;
+}
+
+export function updateBlame(preview: PreviewPane, lines: BlameLine[]) {
+  preview.blameList.options = lines.map((line, index) => ({
+    name: formatBlameLine(line, lines[index - 1]),
+    description: "",
+    value: line,
+  }));
+  showOnly(preview, "blame");
+}
+
+/** Show one playback frame, marking the lines that changed since the previous frame. */
+export function updatePlayback(
+  preview: PreviewPane,
+  content: string,
+  fileName: string | null,
+  changed: { added: number[]; removedAt: number[] },
+) {
+  preview.playText.filetype = filetypeFor(fileName) ?? "";
+  preview.playText.content = content;
+  const colors = new Map<number, { gutter: string; content?: string }>();
+  for (const line of changed.removedAt) colors.set(line, PLAY_REMOVED);
+  for (const line of changed.added) colors.set(line, PLAY_ADDED);
+  preview.playView.setLineColors(colors);
+  showOnly(preview, "playback");
+}
+
+/** Drop the change markers once a frame has been on screen for a moment. */
+export function fadePlayback(preview: PreviewPane) {
+  preview.playView.clearAllLineColors();
 }
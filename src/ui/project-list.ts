@@ -2,13 +2,14 @@ import { SelectRenderable, type SelectOption, type RenderContext } from "@opentu
 
 export interface ProjectItem {
   slug: string;
+  name: string;
   dir: string;
   fileCount: number;
 }
 
 function formatOption(item: ProjectItem): SelectOption {
   return {
-    name: `${item.slug}`,
+    name: item.name,
     description: `${item.fileCount} file${item.fileCount !== 1 ? "s" : ""} · ${item.dir}`,
     value: item,
   };
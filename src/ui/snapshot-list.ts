@@ -2,12 +2,27 @@ import { SelectRenderable, type SelectOption, type RenderContext } from "@opentu
 import { relativeTime } from "../utils.ts";
 import type { SnapshotInfo } from "../tracker.ts";
 
-function formatOption(snap: SnapshotInfo): SelectOption {
+function formatOption(snap: SnapshotInfo, baseHash: string | null): SelectOption {
   const time = relativeTime(snap.date);
   const stats = `+${snap.insertions} -${snap.deletions}`;
+  const labelNames = snap.labels.map((label) => label.name).join(", ");
+  const notes = snap.labels.map((label) => label.note).filter(Boolean).join(" · ");
+
+  let name = labelNames ? `★ ${labelNames} · ${snap.title}` : snap.title;
+  if (snap.imported) name = `⇣ ${name}`;
+  if (snap.hash === baseHash) name = `◆ ${name}`;
+  const details = [
+    time,
+    stats,
+    snap.hash === baseHash ? "base" : "",
+    snap.imported ? "imported from git" : "",
+    snap.meta.trigger === "restore" ? "before restore" : "",
+    snap.meta.trigger === "catch-up" ? "caught up on start" : "",
+    notes,
+  ].filter(Boolean);
   return {
-    name: time,
-    description: stats,
+    name,
+    description: details.join(" · "),
     value: snap,
   };
 }
@@ -28,6 +43,6 @@ export function createSnapshotList(ctx: RenderContext): SelectRenderable {
   });
 }
 
-export function updateSnapshotList(select: SelectRenderable, snapshots: SnapshotInfo[]) {
-  select.options = snapshots.map(formatOption);
+export function updateSnapshotList(select: SelectRenderable, snapshots: SnapshotInfo[], baseHash: string | null = null) {
+  select.options = snapshots.map((snap) => formatOption(snap, baseHash));
 }
@@ -1,9 +1,13 @@
 import { homedir } from "os";
+import { createHash } from "crypto";
 import { join, basename, dirname, resolve } from "path";
 
 export const DATA_DIR = join(homedir(), ".diffden");
 export const CONFIG_PATH = join(DATA_DIR, "config.json");
 export const REPOS_DIR = join(DATA_DIR, "repos");
+export const EVENTS_PATH = join(DATA_DIR, "events.log");
+export const SOCKET_PATH =
+  process.platform === "win32" ? "\\\\.\\pipe\\diffden" : join(DATA_DIR, "daemon.sock");
 
 export function relativeTime(date: Date): string {
   const now = Date.now();
@@ -22,14 +26,29 @@ export function relativeTime(date: Date): string {
   return date.toLocaleDateString();
 }
 
+/** Human-readable project name: the directory's basename. Not unique. */
+export function projectName(dirPath: string): string {
+  return basename(resolve(dirPath)) || "root";
+}
+
+/** Project ID: the readable name plus a short hash of the absolute path, e.g. "app-3f2a9c1d". */
 export function projectSlug(dirPath: string): string {
-  return basename(resolve(dirPath)).replace(/[^a-zA-Z0-9_-]/g, "_");
+  const absPath = resolve(dirPath);
+  const name = projectName(absPath).replace(/[^a-zA-Z0-9_-]/g, "_");
+  const hash = createHash("sha1").update(absPath).digest("hex").slice(0, 8);
+  return `${name}-${hash}`;
 }
 
 export function projectDirFromFile(filePath: string): string {
   return dirname(resolve(filePath));
 }
 
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 export function truncate(str: string, maxLen: number): string {
   if (str.length <= maxLen) return str;
   return str.slice(0, maxLen - 2) + "..";
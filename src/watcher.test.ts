@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, renameSync, rmSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { addWatchTarget, loadConfig, saveConfig, type ProjectConfig } from "./config.ts";
+import { getLog, snapshot } from "./tracker.ts";
+import { onSnapshot, startWatching, stopAll } from "./watcher.ts";
+
+const WAIT_MS = 8000;
+// startWatching doesn't wait for chokidar's initial scan.
+const READY_MS = 500;
+
+// Watch `target` inside a fresh directory holding notes.md, with its first snapshot taken.
+async function watchNotes(target: (dir: string) => string): Promise<{ dir: string; project: ProjectConfig }> {
+  const dir = mkdtempSync(join(homedir(), "watch-"));
+  writeFileSync(join(dir, "notes.md"), "remember the milk\n");
+  const config = loadConfig();
+  const { project } = addWatchTarget(config, target(dir));
+  project.snapshot = { debounceMs: 50 };
+  saveConfig(config);
+  await snapshot(project.slug, join(dir, "notes.md"), "notes.md");
+  await startWatching(project);
+  await Bun.sleep(READY_MS);
+  return { dir, project };
+}
+
+// Resolves with the file name of the next snapshot the watchers take.
+function nextSnapshot(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("no snapshot taken")), WAIT_MS);
+    const unsubscribe = onSnapshot((_slug, fileName) => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(fileName);
+    });
+  });
+}
+
+afterEach(() => stopAll());
+
+describe("rename detection", () => {
+  test("moves the history of a file matched by a pattern", async () => {
+    const { dir, project } = await watchNotes((dir) => join(dir, "*.md"));
+    const snapshotted = nextSnapshot();
+    renameSync(join(dir, "notes.md"), join(dir, "todo.md"));
+
+    expect(await snapshotted).toBe("todo.md");
+    const log = await getLog(project.slug, "todo.md");
+    expect(log.map((entry) => entry.message)).toEqual(["[todo.md] renamed from notes.md", "[notes.md] remember the milk"]);
+  }, WAIT_MS + 2000);
+
+  test("keeps watching a file watched by name under its new name", async () => {
+    const { dir, project } = await watchNotes((dir) => join(dir, "notes.md"));
+    const snapshotted = nextSnapshot();
+    renameSync(join(dir, "notes.md"), join(dir, "todo.md"));
+
+    expect(await snapshotted).toBe("todo.md");
+    expect(loadConfig().projects.find((p) => p.slug === project.slug)!.files).toEqual(["todo.md"]);
+
+    await Bun.sleep(READY_MS);
+    const edited = nextSnapshot();
+    writeFileSync(join(dir, "todo.md"), "remember the eggs\n");
+    expect(await edited).toBe("todo.md");
+  }, WAIT_MS * 2 + 2000);
+});
+
+describe("stopAll", () => {
+  test("cancels a deletion still waiting to see if it was a rename", async () => {
+    const { dir, project } = await watchNotes((dir) => join(dir, "*.md"));
+    let snapshots = 0;
+    const unsubscribe = onSnapshot(() => snapshots++);
+    rmSync(join(dir, "notes.md"));
+    await Bun.sleep(READY_MS); // seen, but inside the rename window
+    await stopAll();
+    await Bun.sleep(2000);
+    unsubscribe();
+
+    expect(snapshots).toBe(0);
+    expect(await getLog(project.slug, "notes.md")).toHaveLength(1);
+  }, WAIT_MS);
+});
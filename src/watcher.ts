@@ -1,26 +1,308 @@
 import { watch, type FSWatcher } from "chokidar";
-import { join } from "path";
-import { snapshot } from "./tracker.ts";
-import type { ProjectConfig } from "./config.ts";
-import { projectSlug } from "./utils.ts";
+import { existsSync, readFileSync, readdirSync, statSync } from "fs";
+import { dirname, join, relative } from "path";
+import {
+  getSnapshotCount,
+  readStoredContent,
+  snapshot,
+  snapshotDeletion,
+  snapshotRename,
+  type SnapshotTrigger,
+} from "./tracker.ts";
+import {
+  forgetProjectFiles,
+  getSnapshotSettings,
+  listProjectFiles,
+  loadConfig,
+  renameFileInConfig,
+  SNAPSHOT_DEFAULTS,
+  type ProjectConfig,
+} from "./config.ts";
+import { createIgnoreFilter, matchesAny, toPosix } from "./glob.ts";
+import { recordEvent } from "./events.ts";
 
-const DEBOUNCE_MS = 500;
+const WRITE_FINISH = { stabilityThreshold: 200, pollInterval: 50 };
+
+// How long a deleted file waits for a file with its contents to appear, which
+// makes it a rename, before the deletion is recorded.
+const RENAME_WINDOW_MS = 1500;
 
 interface WatcherEntry {
   watcher: FSWatcher;
-  filePath: string;
   slug: string;
+  // Pattern watchers cover a whole directory; remember what they were built from.
+  patternKey?: string;
+}
+
+interface PendingRemoval {
+  slug: string;
+  filePath: string;
+  fileName: string;
+  at: number; // when the file disappeared
+  timer: ReturnType<typeof setTimeout>;
+  content?: Promise<Buffer | null>; // its latest snapshot, read once when looking for a rename
 }
 
+// Keys are "<slug>:<fileName>" for single files and "<slug>:*" for a project's patterns.
 const watchers = new Map<string, WatcherEntry>();
-let onSnapshotCallback: ((slug: string, fileName: string) => void) | null = null;
+const debounceTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const lastSnapshotAt = new Map<string, number>(); // same keys as debounceTimers
+const pendingRemovals = new Map<string, PendingRemoval>(); // same keys as debounceTimers
+// The latest config of each watched project, read when an event fires so
+// settings changes apply without restarting the watchers.
+const projects = new Map<string, ProjectConfig>();
+type SnapshotListener = (slug: string, fileName: string, hash: string) => void;
+type ErrorListener = (slug: string, fileName: string | null, message: string) => void;
+const snapshotListeners = new Set<SnapshotListener>();
+const errorListeners = new Set<ErrorListener>();
+
+/** Call `cb` after each snapshot the watchers take. Returns a function that unsubscribes. */
+export function onSnapshot(cb: SnapshotListener): () => void {
+  snapshotListeners.add(cb);
+  return () => snapshotListeners.delete(cb);
+}
+
+/** Call `cb` when a watcher or one of its snapshots fails. Returns a function that unsubscribes. */
+export function onWatchError(cb: ErrorListener): () => void {
+  errorListeners.add(cb);
+  return () => errorListeners.delete(cb);
+}
+
+function reportError(slug: string, fileName: string | null, err: unknown) {
+  const message = err instanceof Error ? err.message : String(err);
+  recordEvent({ event: "watch-error", slug, fileName, message });
+  for (const cb of errorListeners) cb(slug, fileName, message);
+}
+
+function settingsFor(slug: string, fileName: string) {
+  const project = projects.get(slug);
+  return project ? getSnapshotSettings(project, fileName) : SNAPSHOT_DEFAULTS;
+}
+
+function notifySnapshot(slug: string, fileName: string, hash: string) {
+  lastSnapshotAt.set(`${slug}:${fileName}`, Date.now());
+  for (const cb of snapshotListeners) cb(slug, fileName, hash);
+}
+
+function scheduleSnapshot(slug: string, filePath: string, fileName: string) {
+  const key = `${slug}:${fileName}`;
+  const pending = debounceTimers.get(key);
+  if (pending) clearTimeout(pending);
+  cancelRemoval(key); // it's back
+  const { debounceMs, minIntervalMs } = settingsFor(slug, fileName);
+  // Within the minimum interval the change waits for it to end rather than being dropped.
+  const untilAllowed = (lastSnapshotAt.get(key) ?? 0) + minIntervalMs - Date.now();
+  debounceTimers.set(
+    key,
+    setTimeout(async () => {
+      debounceTimers.delete(key);
+      let hash: string | null;
+      try {
+        hash = (await claimRename(slug, filePath, fileName)) ?? (await takeSnapshot(slug, filePath, fileName));
+      } catch (err) {
+        reportError(slug, fileName, err);
+        return;
+      }
+      if (hash) notifySnapshot(slug, fileName, hash);
+    }, Math.max(debounceMs, untilAllowed)),
+  );
+}
+
+function cancelRemoval(key: string) {
+  const removal = pendingRemovals.get(key);
+  if (!removal) return;
+  clearTimeout(removal.timer);
+  pendingRemovals.delete(key);
+}
+
+// Drop debounced snapshots and pending removals for the files `matches` picks,
+// so nothing is committed or recorded deleted once nobody watches them.
+function cancelPending(slug: string, matches: (fileName: string) => boolean = () => true) {
+  const picked = (key: string) => key.startsWith(`${slug}:`) && matches(key.slice(slug.length + 1));
+  for (const [key, timer] of debounceTimers) {
+    if (!picked(key)) continue;
+    clearTimeout(timer);
+    debounceTimers.delete(key);
+  }
+  for (const key of pendingRemovals.keys()) {
+    if (picked(key)) cancelRemoval(key);
+  }
+}
+
+// A deleted file is recorded after a pause, in case it comes straight back
+// (an editor saving by rename) or turns up under another name.
+function scheduleRemoval(slug: string, filePath: string, fileName: string) {
+  const key = `${slug}:${fileName}`;
+  const pending = debounceTimers.get(key);
+  if (pending) clearTimeout(pending);
+  debounceTimers.delete(key);
+  cancelRemoval(key);
+  const { debounceMs } = settingsFor(slug, fileName);
+  const removal: PendingRemoval = {
+    slug,
+    filePath,
+    fileName,
+    at: Date.now(),
+    timer: setTimeout(async () => {
+      pendingRemovals.delete(key);
+      try {
+        await recordRemoval(removal);
+      } catch (err) {
+        reportError(slug, fileName, err);
+      }
+    }, Math.max(debounceMs, RENAME_WINDOW_MS)),
+  };
+  pendingRemovals.set(key, removal);
+}
+
+async function recordRemoval(removal: PendingRemoval): Promise<void> {
+  const { slug, filePath, fileName } = removal;
+  if (existsSync(filePath)) return;
+  const target = await findRenameTarget(removal);
+  if (target) {
+    const hash = await moveHistory(removal, target.filePath, target.fileName);
+    if (hash) notifySnapshot(slug, target.fileName, hash);
+    return;
+  }
+  const hash = await snapshotDeletion(slug, filePath, fileName);
+  if (hash) notifySnapshot(slug, fileName, hash);
+}
 
-export function onSnapshot(cb: (slug: string, fileName: string) => void) {
-  onSnapshotCallback = cb;
+async function hasContentOf(removal: PendingRemoval, filePath: string): Promise<boolean> {
+  removal.content ??= readStoredContent(removal.slug, "HEAD", removal.fileName).then((stored) => stored?.content ?? null);
+  const content = await removal.content;
+  if (!content) return false;
+  try {
+    return statSync(filePath).size === content.length && readFileSync(filePath).equals(content);
+  } catch {
+    return false;
+  }
+}
+
+// A new file with no history whose contents match a file deleted moments ago is that file renamed.
+async function claimRename(slug: string, filePath: string, fileName: string): Promise<string | null> {
+  const removals = [...pendingRemovals.entries()].filter(([, removal]) => removal.slug === slug);
+  if (removals.length === 0 || (await getSnapshotCount(slug, fileName)) > 0) return null;
+  for (const [key, removal] of removals) {
+    if (!(await hasContentOf(removal, filePath))) continue;
+    cancelRemoval(key);
+    return moveHistory(removal, filePath, fileName);
+  }
+  return null;
+}
+
+// A file that only has a watcher of its own reports no new names, so look
+// beside it for one renamed (changed ctime) since it disappeared.
+async function findRenameTarget(removal: PendingRemoval): Promise<{ filePath: string; fileName: string } | null> {
+  const project = projects.get(removal.slug);
+  if (!project) return null;
+  const dir = dirname(removal.filePath);
+  let names: string[];
+  try {
+    names = readdirSync(dir);
+  } catch {
+    return null;
+  }
+  for (const name of names) {
+    const filePath = join(dir, name);
+    try {
+      const stats = statSync(filePath);
+      if (!stats.isFile() || stats.ctimeMs < removal.at - RENAME_WINDOW_MS) continue;
+    } catch {
+      continue;
+    }
+    const fileName = toPosix(relative(project.dir, filePath));
+    // A pattern-matched file can only be renamed to a name the patterns still cover.
+    if (!project.files.includes(removal.fileName) && !coveredByPatterns(project, fileName)) continue;
+    if (!(await hasContentOf(removal, filePath))) continue;
+    if ((await getSnapshotCount(removal.slug, fileName)) > 0) continue;
+    return { filePath, fileName };
+  }
+  return null;
+}
+
+function coveredByPatterns(project: ProjectConfig, fileName: string): boolean {
+  return matchesAny(fileName, project.patterns ?? []) && !matchesAny(fileName, project.ignore ?? []);
+}
+
+async function moveHistory(removal: PendingRemoval, filePath: string, fileName: string): Promise<string | null> {
+  const { slug } = removal;
+  const hash = await snapshotRename(slug, filePath, removal.fileName, fileName);
+  // A file watched by name stays watched under its new one.
+  if (hash && projects.get(slug)?.files.includes(removal.fileName)) {
+    const project = renameFileInConfig(loadConfig(), slug, removal.fileName, fileName).projects.find((p) => p.slug === slug);
+    await stopWatching(slug, removal.fileName);
+    if (project) await startWatching(project);
+  }
+  return hash;
+}
+
+async function takeSnapshot(
+  slug: string,
+  filePath: string,
+  fileName: string,
+  trigger: SnapshotTrigger = "watch",
+): Promise<string | null> {
+  const settings = settingsFor(slug, fileName);
+  let date: Date | undefined;
+  try {
+    // A catch-up snapshot is dated when the change was made, not when it was found.
+    if (trigger === "catch-up") date = statSync(filePath).mtime;
+  } catch {
+    return null;
+  }
+  return snapshot(slug, filePath, fileName, { trigger, ignoreWhitespace: settings.ignoreWhitespace, settings, date });
+}
+
+function patternKeyFor(project: ProjectConfig): string | undefined {
+  if (!project.patterns?.length) return undefined;
+  return JSON.stringify([project.patterns, project.ignore ?? []]);
+}
+
+async function startPatternWatcher(project: ProjectConfig): Promise<void> {
+  const slug = project.slug;
+  const key = `${slug}:*`;
+  const patternKey = patternKeyFor(project);
+  const existing = watchers.get(key);
+
+  if (existing && existing.patternKey === patternKey) return;
+  if (existing) {
+    await existing.watcher.close();
+    watchers.delete(key);
+  }
+  if (!patternKey) return;
+
+  const watcher = watch(project.dir, {
+    persistent: true,
+    ignoreInitial: true,
+    ignored: createIgnoreFilter(project.dir, project.patterns!, project.ignore ?? []),
+    awaitWriteFinish: WRITE_FINISH,
+  });
+
+  const onEvent = (filePath: string) => {
+    const fileName = toPosix(relative(project.dir, filePath));
+    // Explicitly watched files have their own watcher.
+    if (watchers.has(`${slug}:${fileName}`)) return;
+    scheduleSnapshot(slug, filePath, fileName);
+  };
+  watcher.on("add", (filePath) => {
+    forgetProjectFiles(project.dir);
+    onEvent(filePath);
+  });
+  watcher.on("change", onEvent);
+  watcher.on("unlink", (filePath) => {
+    forgetProjectFiles(project.dir);
+    const fileName = toPosix(relative(project.dir, filePath));
+    if (!watchers.has(`${slug}:${fileName}`)) scheduleRemoval(slug, filePath, fileName);
+  });
+  watcher.on("error", (err) => reportError(slug, null, err));
+
+  watchers.set(key, { watcher, slug, patternKey });
 }
 
 export async function startWatching(project: ProjectConfig): Promise<void> {
   const slug = project.slug;
+  projects.set(slug, project);
 
   for (const fileName of project.files) {
     const filePath = join(project.dir, fileName);
@@ -28,26 +310,22 @@ export async function startWatching(project: ProjectConfig): Promise<void> {
 
     if (watchers.has(key)) continue;
 
-    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
-
     const watcher = watch(filePath, {
       persistent: true,
       ignoreInitial: true,
-      awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
+      awaitWriteFinish: WRITE_FINISH,
     });
 
-    watcher.on("change", () => {
-      if (debounceTimer) clearTimeout(debounceTimer);
-      debounceTimer = setTimeout(async () => {
-        const hash = await snapshot(slug, filePath);
-        if (hash && onSnapshotCallback) {
-          onSnapshotCallback(slug, fileName);
-        }
-      }, DEBOUNCE_MS);
-    });
+    // chokidar keeps watching a deleted file's path, so a recreated file is seen as an add.
+    watcher.on("add", () => scheduleSnapshot(slug, filePath, fileName));
+    watcher.on("change", () => scheduleSnapshot(slug, filePath, fileName));
+    watcher.on("unlink", () => scheduleRemoval(slug, filePath, fileName));
+    watcher.on("error", (err) => reportError(slug, fileName, err));
 
-    watchers.set(key, { watcher, filePath, slug });
+    watchers.set(key, { watcher, slug });
   }
+
+  await startPatternWatcher(project);
 }
 
 export async function stopWatching(slug: string, fileName?: string): Promise<void> {
@@ -57,6 +335,68 @@ export async function stopWatching(slug: string, fileName?: string): Promise<voi
       watchers.delete(key);
     }
   }
+  cancelPending(slug, fileName === undefined ? undefined : (name) => name === fileName);
+}
+
+/** Start watchers for every configured file and stop the ones no longer configured. */
+export async function syncWatching(configured: ProjectConfig[]): Promise<void> {
+  const wanted = new Set(
+    configured.flatMap((p) => [...p.files.map((f) => `${p.slug}:${f}`), ...(p.patterns?.length ? [`${p.slug}:*`] : [])]),
+  );
+  for (const [key, entry] of watchers) {
+    if (!wanted.has(key)) {
+      await entry.watcher.close();
+      watchers.delete(key);
+      const project = configured.find((p) => p.slug === entry.slug);
+      const fileName = key.slice(entry.slug.length + 1);
+      // A dropped pattern watcher takes the files only it covered with it.
+      if (fileName === "*") cancelPending(entry.slug, (name) => !project?.files.includes(name));
+      else cancelPending(entry.slug, (name) => name === fileName);
+    }
+  }
+  for (const slug of projects.keys()) {
+    if (configured.some((p) => p.slug === slug)) continue;
+    projects.delete(slug);
+    cancelPending(slug);
+  }
+  for (const project of configured) {
+    await startWatching(project);
+  }
+}
+
+export interface CatchUpResult {
+  slug: string;
+  fileName: string;
+  hash: string;
+  deleted: boolean;
+}
+
+/**
+ * Snapshot the files of `configured` that changed while nothing was watching
+ * them; watchers ignore a file's initial state. Explicitly watched files that
+ * disappeared meanwhile are recorded as deleted. Call after starting the watchers.
+ */
+export async function catchUp(configured: ProjectConfig[]): Promise<CatchUpResult[]> {
+  const results: CatchUpResult[] = [];
+  for (const project of configured) {
+    for (const fileName of listProjectFiles(project)) {
+      const key = `${project.slug}:${fileName}`;
+      if (debounceTimers.has(key) || pendingRemovals.has(key)) continue; // a watcher has it already
+      const filePath = join(project.dir, fileName);
+      try {
+        const deleted = !existsSync(filePath);
+        const hash = deleted
+          ? await snapshotDeletion(project.slug, filePath, fileName, "catch-up")
+          : await takeSnapshot(project.slug, filePath, fileName, "catch-up");
+        if (!hash) continue;
+        lastSnapshotAt.set(key, Date.now());
+        results.push({ slug: project.slug, fileName, hash, deleted });
+      } catch (err) {
+        reportError(project.slug, fileName, err);
+      }
+    }
+  }
+  return results;
 }
 
 export async function stopAll(): Promise<void> {
@@ -64,6 +404,11 @@ export async function stopAll(): Promise<void> {
     await entry.watcher.close();
   }
   watchers.clear();
+  projects.clear();
+  for (const timer of debounceTimers.values()) clearTimeout(timer);
+  debounceTimers.clear();
+  for (const removal of pendingRemovals.values()) clearTimeout(removal.timer);
+  pendingRemovals.clear();
 }
 
 export function isWatching(slug: string, fileName: string): boolean {